@@ -0,0 +1,483 @@
+import {AttributeType, AttributeValue, Filter, FilterCondition, IInCondition, IndexableDocument, IRangeCondition, IStorage} from '../type';
+
+const SEGMENT_PATTERN = /^attr_seg_(\d+)\.bin$/;
+// 字符串列中表示缺失值的编号
+const MISSING = 0xFFFFFFFF;
+// 列类型标志位：字符串列、多值列
+const FLAG_STRING = 0x1;
+const FLAG_LIST = 0x2;
+
+type StoredValue = number | string;
+
+/**
+ * 属性列，数值列以 NaN 表示缺失值，字符串列保存字典与每行的字典编号
+ * 多值列（属性值为数组）的 values 依次存放各行的值，第 i 行为 values[offsets[i]] 到 values[offsets[i + 1]] 之前
+ */
+type AttributeColumn = ({ kind: 'number', values: Float64Array } | { kind: 'string', dictionary: string[], values: Uint32Array })
+	& { offsets?: Uint32Array };
+
+interface IAttributeSegment {
+	filename: string;
+	ids: Uint32Array;
+	columns: Map<string, AttributeColumn>;
+}
+
+interface IAttributeRow {
+	id: number;
+	values: Map<string, StoredValue | StoredValue[]>;
+}
+
+/**
+ * 属性存储
+ * 保存 filterableAttributes 中声明的文档属性，搜索时在评分之前按过滤条件筛选文档ID
+ *
+ * 结构：每次写入生成一个按列存放的属性段文件 attr_seg_<序号>.bin，同一ID以最后写入的段为准
+ *  末尾的段不小于前一个段时与其合并（类似二进制计数），只重写末尾较小的段，每行被重写 O(log N) 次，段数为 O(log N)
+ *  文档数(4) + 列数(4) + 文档ID(4 * 文档数)
+ *  每列: 列名长度(4) + 列名(UTF-8) + 类型标志(1)
+ *    多值列: 值数(4) + 各行起始位置(4 * (文档数 + 1))
+ *    数值列: 值(8 * 值数, Float64)
+ *    字符串列: 字典长度(4) + 字典(JSON 数组, UTF-8) + 字典编号(4 * 值数)
+ *  单值列的值数等于文档数
+ */
+export class AttributeStore {
+	#storage: IStorage;
+	#types: Readonly<Record<string, AttributeType>>;
+	#segments: IAttributeSegment[] = [];
+	// 每个文档最新的属性所在的段下标与行号
+	#rows = new Map<number, { segment: number, row: number }>();
+	#nextSegment = 1;
+	#loaded = false;
+
+	/**
+	 * @param storage 存储
+	 * @param types 可过滤属性及其类型
+	 */
+	constructor(storage: IStorage, types: Readonly<Record<string, AttributeType>>) {
+		this.#storage = storage;
+		this.#types = types;
+	}
+
+	async load(): Promise<void> {
+		if (this.#loaded) return;
+		this.#segments = [];
+		this.#rows.clear();
+
+		const files = (await this.#storage.listFiles())
+			.map(filename => ({filename, seq: Number(SEGMENT_PATTERN.exec(filename)?.[1] ?? 0)}))
+			.filter(file => file.seq > 0)
+			.sort((a, b) => a.seq - b.seq);
+		for (const {filename} of files) {
+			const buffer = await this.#storage.read(filename);
+			if (buffer) this.#addSegment(decodeSegment(filename, buffer));
+		}
+		this.#nextSegment = (files[files.length - 1]?.seq ?? 0) + 1;
+		this.#loaded = true;
+	}
+
+	reset(): void {
+		this.#segments = [];
+		this.#rows.clear();
+		this.#nextSegment = 1;
+		this.#loaded = false;
+	}
+
+	/**
+	 * 写入文档的属性，每次写入生成一个属性段；没有属性的文档也会写入，以覆盖旧版本的属性
+	 */
+	async write(docs: IndexableDocument[]): Promise<void> {
+		if (docs.length === 0) return;
+		await this.load();
+
+		const rows = docs.map(doc => {
+			const values = new Map<string, StoredValue | StoredValue[]>();
+			for (const [name, type] of Object.entries(this.#types)) {
+				const value = doc.attributes?.[name];
+				if (Array.isArray(value)) {
+					values.set(name, value.map(item => normalizeValue(item, type)).filter(item => item !== undefined));
+				} else {
+					const normalized = normalizeValue(value, type);
+					if (normalized !== undefined) values.set(name, normalized);
+				}
+			}
+			return {id: doc.id, values};
+		});
+		await this.#writeSegment(rows);
+
+		let from = this.#segments.length - 1;
+		let size = this.#segments[from].ids.length;
+		while (from > 0 && this.#segments[from - 1].ids.length <= size) {
+			from--;
+			size += this.#segments[from].ids.length;
+		}
+		if (from < this.#segments.length - 1) await this.#rewrite(from, () => true);
+	}
+
+	/**
+	 * 查找属性满足所有过滤条件的文档ID（只使用每个文档最新写入的属性）
+	 * @throws 过滤条件中的属性未声明，或对 string 属性使用范围条件时抛出错误
+	 */
+	async filter(filter: Filter): Promise<Set<number>> {
+		const conditions = Object.entries(filter).map(([name, condition]) => this.#compile(name, condition));
+		await this.load();
+
+		const result = new Set<number>();
+		this.#segments.forEach((segment, index) => {
+			const tests = conditions.map(compile => compile(segment));
+			segment.ids.forEach((id, row) => {
+				const latest = this.#rows.get(id)!;
+				if (latest.segment !== index || latest.row !== row) return;
+				if (tests.every(test => test(row))) result.add(id);
+			});
+		});
+		return result;
+	}
+
+	/**
+	 * 统计文档在各属性上每个取值的文档数，多值属性的每个取值分别计数
+	 * @param ids 要统计的文档ID
+	 * @param names 属性名
+	 * @returns 属性名到 取值 → 文档数 的映射，按文档数从多到少排列；date 属性的取值为 ISO 字符串
+	 * @throws 属性未声明时抛出错误
+	 */
+	async facets(ids: Iterable<number>, names: string[]): Promise<Record<string, Record<string, number>>> {
+		for (const name of names) {
+			if (!this.#types[name]) throw new Error(`Attribute "${name}" is not filterable.`);
+		}
+		await this.load();
+
+		const counts = new Map(names.map(name => [name, new Map<StoredValue, number>()]));
+		for (const id of ids) {
+			const latest = this.#rows.get(id);
+			if (!latest) continue;
+			const segment = this.#segments[latest.segment];
+			for (const [name, valueCounts] of counts) {
+				const column = segment.columns.get(name);
+				if (!column) continue;
+				for (const value of new Set(readValues(column, latest.row))) {
+					valueCounts.set(value, (valueCounts.get(value) ?? 0) + 1);
+				}
+			}
+		}
+
+		const result: Record<string, Record<string, number>> = {};
+		for (const [name, valueCounts] of counts) {
+			const format = this.#types[name] === 'date'
+				? (value: StoredValue) => typeof value === 'number' ? new Date(value).toISOString() : value
+				: String;
+			const sorted = Array.from(valueCounts).sort((a, b) => b[1] - a[1]);
+			result[name] = Object.fromEntries(sorted.map(([value, count]) => [format(value), count]));
+		}
+		return result;
+	}
+
+	/**
+	 * 读取文档的属性值用于排序，多值属性升序时取最小值、降序时取最大值
+	 * @returns 文档ID到属性值的映射，缺少该属性的文档不包含在结果中
+	 * @throws 属性未声明时抛出错误
+	 */
+	async sortKeys(ids: Iterable<number>, name: string, order: 'asc' | 'desc'): Promise<Map<number, number | string>> {
+		if (!this.#types[name]) throw new Error(`Attribute "${name}" is not filterable.`);
+		await this.load();
+
+		const result = new Map<number, StoredValue>();
+		for (const id of ids) {
+			const latest = this.#rows.get(id);
+			const column = latest && this.#segments[latest.segment].columns.get(name);
+			if (!column) continue;
+			const values = readValues(column, latest.row);
+			if (values.length === 0) continue;
+			result.set(id, values.reduce((best, value) => (order === 'asc' ? value < best : value > best) ? value : best));
+		}
+		return result;
+	}
+
+	/**
+	 * 将所有属性段合并为一个，只保留 keep 返回 true 的文档的最新属性
+	 */
+	async compact(keep: (id: number) => boolean): Promise<void> {
+		await this.load();
+		if (this.#segments.length === 0) return;
+		await this.#rewrite(0, keep);
+	}
+
+	/**
+	 * 将下标 from 及之后的段合并为一个段，只保留 keep 返回 true 的文档在这些段中的最新属性
+	 */
+	async #rewrite(from: number, keep: (id: number) => boolean): Promise<void> {
+		const rows: IAttributeRow[] = [];
+		for (const [id, {segment, row}] of this.#rows) {
+			if (segment < from || !keep(id)) continue;
+			const values = new Map<string, StoredValue | StoredValue[]>();
+			for (const [name, column] of this.#segments[segment].columns) {
+				const list = readValues(column, row);
+				if (column.offsets) {
+					values.set(name, list);
+				} else if (list.length > 0) {
+					values.set(name, list[0]);
+				}
+			}
+			rows.push({id, values});
+		}
+
+		const oldSegments = this.#segments.slice(from);
+		this.#segments = this.#segments.slice(0, from);
+		for (const [id, {segment}] of this.#rows) {
+			if (segment >= from) this.#rows.delete(id);
+		}
+		// 先写入新段再删除旧段，中途失败时不丢失属性
+		if (rows.length > 0) await this.#writeSegment(rows);
+		for (const segment of oldSegments) {
+			await this.#storage.remove(segment.filename);
+		}
+	}
+
+	async #writeSegment(rows: IAttributeRow[]): Promise<void> {
+		const filename = `attr_seg_${this.#nextSegment++}.bin`;
+		const segment = buildSegment(filename, rows);
+		await this.#storage.write(filename, encodeSegment(segment));
+		this.#addSegment(segment);
+	}
+
+	#addSegment(segment: IAttributeSegment): void {
+		const index = this.#segments.length;
+		this.#segments.push(segment);
+		segment.ids.forEach((id, row) => this.#rows.set(id, {segment: index, row}));
+	}
+
+	/**
+	 * 将单个属性的过滤条件编译为按段生成的行判断函数，多值属性任一取值满足条件即匹配
+	 */
+	#compile(name: string, condition: FilterCondition): (segment: IAttributeSegment) => (row: number) => boolean {
+		const type = this.#types[name];
+		if (!type) throw new Error(`Attribute "${name}" is not filterable.`);
+
+		if (isRangeCondition(condition)) {
+			if (type === 'string') throw new Error(`Range filter is not supported on string attribute "${name}".`);
+			// 无法解析的边界为 NaN，不匹配任何文档
+			const bound = (value: number | Date | string | undefined) =>
+				value === undefined ? undefined : (normalizeValue(value, type) as number | undefined) ?? NaN;
+			const gt = bound(condition.gt), gte = bound(condition.gte), lt = bound(condition.lt), lte = bound(condition.lte);
+			return segment => {
+				const column = segment.columns.get(name);
+				if (column?.kind !== 'number') return () => false;
+				// 缺失值为 NaN，与任何边界比较都不成立
+				return matchRows(column, value => !Number.isNaN(value)
+					&& (gt === undefined || value > gt) && (gte === undefined || value >= gte)
+					&& (lt === undefined || value < lt) && (lte === undefined || value <= lte));
+			};
+		}
+
+		const accepted = new Set<StoredValue>();
+		for (const value of isInCondition(condition) ? condition.in : [condition]) {
+			const normalized = normalizeValue(value, type);
+			if (normalized !== undefined) accepted.add(normalized);
+		}
+		return segment => {
+			const column = segment.columns.get(name);
+			if (!column) return () => false;
+			if (column.kind === 'number') return matchRows(column, value => accepted.has(value));
+			// 字符串列先将取值转换为字典编号
+			const codes = new Set<number>();
+			column.dictionary.forEach((value, code) => {
+				if (accepted.has(value)) codes.add(code);
+			});
+			return matchRows(column, code => codes.has(code));
+		};
+	}
+}
+
+function isInCondition(condition: FilterCondition): condition is IInCondition {
+	return typeof condition === 'object' && !(condition instanceof Date) && 'in' in condition;
+}
+
+function isRangeCondition(condition: FilterCondition): condition is IRangeCondition {
+	return typeof condition === 'object' && !(condition instanceof Date) && !('in' in condition);
+}
+
+/**
+ * 按属性类型转换属性值，无法转换时返回 undefined
+ */
+function normalizeValue(value: AttributeValue | undefined | null, type: AttributeType): StoredValue | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (type === 'string') return value instanceof Date ? value.toISOString() : String(value);
+	const number = value instanceof Date ? value.getTime()
+		: type === 'date' && typeof value === 'string' ? Date.parse(value)
+			: Number(value);
+	return Number.isNaN(number) ? undefined : number;
+}
+
+/**
+ * 生成行判断函数：单值列判断该行的值，多值列判断该行的任一值
+ * @param test 判断列中存放的值（数值或字典编号）
+ */
+function matchRows(column: AttributeColumn, test: (value: number) => boolean): (row: number) => boolean {
+	const {values, offsets} = column;
+	if (!offsets) return row => test(values[row]);
+	return row => {
+		for (let i = offsets[row]; i < offsets[row + 1]; i++) {
+			if (test(values[i])) return true;
+		}
+		return false;
+	};
+}
+
+/**
+ * 读取一行的所有值，缺失时为空数组
+ */
+function readValues(column: AttributeColumn, row: number): StoredValue[] {
+	const from = column.offsets ? column.offsets[row] : row;
+	const to = column.offsets ? column.offsets[row + 1] : row + 1;
+	const result: StoredValue[] = [];
+	for (let i = from; i < to; i++) {
+		if (column.kind === 'number') {
+			if (!Number.isNaN(column.values[i])) result.push(column.values[i]);
+		} else if (column.values[i] !== MISSING) {
+			result.push(column.dictionary[column.values[i]]);
+		}
+	}
+	return result;
+}
+
+/**
+ * 将按行的属性转换为按列存放的属性段，属性值的类型决定列的类型，任一行为数组时为多值列
+ */
+function buildSegment(filename: string, rows: IAttributeRow[]): IAttributeSegment {
+	const names = new Set<string>();
+	for (const row of rows) {
+		for (const name of row.values.keys()) names.add(name);
+	}
+
+	const columns = new Map<string, AttributeColumn>();
+	for (const name of names) {
+		const list = rows.some(row => Array.isArray(row.values.get(name)));
+		const rowValues = rows.map(row => {
+			const value = row.values.get(name);
+			return value === undefined ? [] : Array.isArray(value) ? value : [value];
+		});
+		const flat = rowValues.flat();
+		let offsets: Uint32Array | undefined;
+		if (list) {
+			offsets = new Uint32Array(rows.length + 1);
+			rowValues.forEach((values, i) => offsets![i + 1] = offsets![i] + values.length);
+		}
+		// 单值列中缺失值占一个位置
+		const slots = list ? flat : rowValues.map(values => values.length > 0 ? values[0] : undefined);
+
+		if (flat.length > 0 && typeof flat[0] === 'number') {
+			const values = Float64Array.from(slots, value => typeof value === 'number' ? value : NaN);
+			columns.set(name, {kind: 'number', values, offsets});
+		} else {
+			const dictionary: string[] = [];
+			const codes = new Map<string, number>();
+			const values = Uint32Array.from(slots, value => {
+				if (typeof value !== 'string') return MISSING;
+				let code = codes.get(value);
+				if (code === undefined) {
+					code = dictionary.push(value) - 1;
+					codes.set(value, code);
+				}
+				return code;
+			});
+			columns.set(name, {kind: 'string', dictionary, values, offsets});
+		}
+	}
+	return {filename, ids: Uint32Array.from(rows, row => row.id), columns};
+}
+
+function encodeSegment(segment: IAttributeSegment): ArrayBuffer {
+	const encoder = new TextEncoder();
+	const count = segment.ids.length;
+	const columns = Array.from(segment.columns, ([name, column]) => ({
+		name: encoder.encode(name),
+		dictionary: column.kind === 'string' ? encoder.encode(JSON.stringify(column.dictionary)) : null,
+		column
+	}));
+
+	let size = 8 + count * 4;
+	for (const {name, dictionary, column} of columns) {
+		size += 4 + name.byteLength + 1;
+		if (column.offsets) size += 4 + column.offsets.byteLength;
+		size += dictionary ? 4 + dictionary.byteLength + column.values.length * 4 : column.values.length * 8;
+	}
+
+	const buffer = new ArrayBuffer(size);
+	const view = new DataView(buffer);
+	const bytes = new Uint8Array(buffer);
+	let offset = 0;
+	const writeUint32 = (value: number) => {
+		view.setUint32(offset, value, true);
+		offset += 4;
+	};
+	const writeBytes = (data: Uint8Array) => {
+		writeUint32(data.byteLength);
+		bytes.set(data, offset);
+		offset += data.byteLength;
+	};
+
+	writeUint32(count);
+	writeUint32(columns.length);
+	segment.ids.forEach(writeUint32);
+
+	for (const {name, dictionary, column} of columns) {
+		writeBytes(name);
+		view.setUint8(offset++, (column.kind === 'string' ? FLAG_STRING : 0) | (column.offsets ? FLAG_LIST : 0));
+		if (column.offsets) {
+			writeUint32(column.values.length);
+			column.offsets.forEach(writeUint32);
+		}
+		if (column.kind === 'number') {
+			column.values.forEach(value => {
+				view.setFloat64(offset, value, true);
+				offset += 8;
+			});
+		} else {
+			writeBytes(dictionary!);
+			column.values.forEach(writeUint32);
+		}
+	}
+	return buffer;
+}
+
+function decodeSegment(filename: string, buffer: ArrayBuffer): IAttributeSegment {
+	const decoder = new TextDecoder();
+	const view = new DataView(buffer);
+	let offset = 0;
+	const readUint32 = () => {
+		const value = view.getUint32(offset, true);
+		offset += 4;
+		return value;
+	};
+	const readString = () => {
+		const length = readUint32();
+		const text = decoder.decode(new Uint8Array(buffer, offset, length));
+		offset += length;
+		return text;
+	};
+
+	const count = readUint32();
+	const columnCount = readUint32();
+	const ids = Uint32Array.from({length: count}, readUint32);
+
+	const columns = new Map<string, AttributeColumn>();
+	for (let c = 0; c < columnCount; c++) {
+		const name = readString();
+		const flags = view.getUint8(offset++);
+		let offsets: Uint32Array | undefined;
+		let valueCount = count;
+		if (flags & FLAG_LIST) {
+			valueCount = readUint32();
+			offsets = Uint32Array.from({length: count + 1}, readUint32);
+		}
+		if (flags & FLAG_STRING) {
+			const dictionary: string[] = JSON.parse(readString());
+			const values = Uint32Array.from({length: valueCount}, readUint32);
+			columns.set(name, {kind: 'string', dictionary, values, offsets});
+		} else {
+			const values = new Float64Array(valueCount);
+			for (let i = 0; i < valueCount; i++, offset += 8) values[i] = view.getFloat64(offset, true);
+			columns.set(name, {kind: 'number', values, offsets});
+		}
+	}
+	return {filename, ids, columns};
+}
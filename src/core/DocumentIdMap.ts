@@ -0,0 +1,139 @@
+import {DocumentId, DocumentIdType, IStorage} from '../type';
+
+const ID_MAP_FILE = 'id_map.bin';
+const MAX_UINT32 = 0xFFFFFFFF;
+const MIN_INT64 = -(2n ** 63n);
+const MAX_UINT64 = 2n ** 64n - 1n;
+
+/**
+ * 文档ID映射
+ * 将外部文档ID转换为索引内部使用的 32 位序号
+ * 未设置ID类型时与 'uint32' 相同，数字ID直接作为内部ID，不保存映射，超出 32 位无符号整数范围的ID抛出错误
+ *
+ * 结构：
+ *  id_map.bin: 依次追加的记录，每条为 ID 文本的字节长度(4) + ID 文本 (UTF-8)，记录的下标即内部序号
+ */
+export class DocumentIdMap {
+	static readonly FILE = ID_MAP_FILE;
+
+	#storage: IStorage;
+	#type?: DocumentIdType;
+	#ordinals = new Map<DocumentId, number>();
+	#ids: DocumentId[] = [];
+	// 已分配序号但尚未写入文件的ID数量（位于 #ids 末尾）
+	#pending = 0;
+
+	constructor(storage: IStorage, type?: DocumentIdType) {
+		this.#storage = storage;
+		this.#type = type;
+	}
+
+	/**
+	 * 是否使用映射，'number'、'bigint' 与 'string' 类型需要映射
+	 */
+	get mapped(): boolean {
+		return this.#type !== undefined && this.#type !== 'uint32';
+	}
+
+	async load(): Promise<void> {
+		this.reset();
+		if (!this.mapped) return;
+
+		const buffer = await this.#storage.read(ID_MAP_FILE);
+		if (!buffer) return;
+		const view = new DataView(buffer);
+		const decoder = new TextDecoder();
+		let offset = 0;
+		// 末尾不完整的记录（写入中断）忽略
+		while (offset + 4 <= buffer.byteLength) {
+			const length = view.getUint32(offset, true);
+			if (offset + 4 + length > buffer.byteLength) break;
+			const text = decoder.decode(new Uint8Array(buffer, offset + 4, length));
+			this.#add(this.#type === 'number' ? Number(text) : this.#type === 'bigint' ? BigInt(text) : text);
+			offset += 4 + length;
+		}
+	}
+
+	reset(): void {
+		this.#ordinals.clear();
+		this.#ids = [];
+		this.#pending = 0;
+	}
+
+	/**
+	 * 查找外部ID对应的内部ID，ID未添加过或不符合ID类型时返回 undefined
+	 */
+	find(id: DocumentId): number | undefined {
+		if (!this.#isValid(id)) return undefined;
+		return this.mapped ? this.#ordinals.get(id) : id as number;
+	}
+
+	/**
+	 * 查找外部ID对应的内部ID，未添加过时分配新的序号，需要调用 save 持久化
+	 * ID不符合ID类型时抛出错误
+	 */
+	resolve(id: DocumentId): number {
+		if (!this.#isValid(id)) {
+			throw new Error(this.mapped
+				? `Document ID ${id} is not a valid ${this.#type} ID.`
+				: `Document ID ${id} is not an unsigned 32-bit integer; set idType to use other IDs.`);
+		}
+		if (!this.mapped) return id as number;
+
+		const ordinal = this.#ordinals.get(id);
+		if (ordinal !== undefined) return ordinal;
+		if (this.#ids.length > MAX_UINT32) {
+			throw new Error("Too many document IDs.");
+		}
+		this.#pending++;
+		return this.#add(id);
+	}
+
+	/**
+	 * 内部ID对应的外部ID
+	 */
+	external(ordinal: number): DocumentId {
+		return this.mapped ? this.#ids[ordinal] : ordinal;
+	}
+
+	/**
+	 * 追加保存新分配的映射
+	 */
+	async save(): Promise<void> {
+		if (this.#pending === 0) return;
+		const encoder = new TextEncoder();
+		const records = this.#ids.slice(this.#ids.length - this.#pending).map(id => encoder.encode(String(id)));
+
+		const buffer = new ArrayBuffer(records.reduce((sum, bytes) => sum + 4 + bytes.byteLength, 0));
+		const view = new DataView(buffer);
+		const bytes = new Uint8Array(buffer);
+		let offset = 0;
+		for (const record of records) {
+			view.setUint32(offset, record.byteLength, true);
+			bytes.set(record, offset + 4);
+			offset += 4 + record.byteLength;
+		}
+		await this.#storage.append(ID_MAP_FILE, buffer);
+		this.#pending = 0;
+	}
+
+	#add(id: DocumentId): number {
+		const ordinal = this.#ids.length;
+		this.#ids.push(id);
+		this.#ordinals.set(id, ordinal);
+		return ordinal;
+	}
+
+	#isValid(id: DocumentId): boolean {
+		switch (this.#type) {
+			case 'number':
+				return typeof id === 'number' && Number.isSafeInteger(id);
+			case 'bigint':
+				return typeof id === 'bigint' && id >= MIN_INT64 && id <= MAX_UINT64;
+			case 'string':
+				return typeof id === 'string';
+			default:
+				return typeof id === 'number' && Number.isInteger(id) && id >= 0 && id <= MAX_UINT32;
+		}
+	}
+}
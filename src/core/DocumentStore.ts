@@ -0,0 +1,246 @@
+import {IndexableDocument, IStorage} from '../type';
+
+const DATA_FILE = 'doc_store.bin';
+const INDEX_FILE = 'doc_store_idx.bin';
+// 索引记录: 文档ID(4) + 块偏移(4) + 块长度(4) + 标志位(4)
+const ENTRY_SIZE = 16;
+const FLAG_COMPRESSED = 0x1;
+// 单个块未压缩时的目标大小，块越大压缩率越高，读取单个文档的开销也越大
+const BLOCK_SIZE = 64 * 1024;
+
+interface IBlockRef {
+	offset: number;
+	length: number;
+	flags: number;
+}
+
+/**
+ * 文档存储
+ * 保存原始文档，用于 getDocument 与搜索结果中返回文档内容，不参与倒排索引
+ *
+ * 结构：
+ *  doc_store.bin: 依次追加的块，每个块为 [[id, doc], ...] 的 JSON (UTF-8)，环境支持时使用 deflate-raw 压缩
+ *  doc_store_idx.bin: 依次追加的索引记录，同一ID以最后一条为准，读取文档时按块偏移与长度范围读取
+ *  compact 后文件名带有数据文件的序号，如 doc_store_2.bin / doc_store_idx_2.bin
+ */
+export class DocumentStore {
+	/**
+	 * 某个序号的文档存储占用的文件名
+	 */
+	static filesOf(generation: number): readonly [string, string] {
+		if (generation === 0) return [DATA_FILE, INDEX_FILE];
+		return [DATA_FILE, INDEX_FILE].map(filename => filename.replace(/\.bin$/, `_${generation}.bin`)) as [string, string];
+	}
+
+	#storage: IStorage;
+	#generation = 0;
+	#index = new Map<number, IBlockRef>();
+	#dataSize = 0;
+	#loaded = false;
+	// 最近读取的块，连续读取同一块中的文档时避免重复解压
+	#lastBlock: { offset: number, docs: Map<number, IndexableDocument> } | null = null;
+
+	constructor(storage: IStorage) {
+		this.#storage = storage;
+	}
+
+	/**
+	 * 切换到某个序号的文件，序号改变时下次读写重新加载
+	 */
+	use(generation: number): void {
+		if (generation === this.#generation) return;
+		this.reset();
+		this.#generation = generation;
+	}
+
+	async load(): Promise<void> {
+		if (this.#loaded) return;
+		const [dataFile, indexFile] = DocumentStore.filesOf(this.#generation);
+		this.#index.clear();
+		this.#lastBlock = null;
+		this.#dataSize = await this.#storage.getFileSize(dataFile);
+
+		const buffer = await this.#storage.read(indexFile);
+		if (buffer) {
+			const view = new DataView(buffer);
+			for (let offset = 0; offset + ENTRY_SIZE <= buffer.byteLength; offset += ENTRY_SIZE) {
+				this.#index.set(view.getUint32(offset, true), {
+					offset: view.getUint32(offset + 4, true),
+					length: view.getUint32(offset + 8, true),
+					flags: view.getUint32(offset + 12, true)
+				});
+			}
+		}
+		this.#loaded = true;
+	}
+
+	reset(): void {
+		this.#generation = 0;
+		this.#index.clear();
+		this.#dataSize = 0;
+		this.#lastBlock = null;
+		this.#loaded = false;
+	}
+
+	/**
+	 * 写入文档，已存在的ID以新写入的为准
+	 */
+	async write(docs: IndexableDocument[]): Promise<void> {
+		if (docs.length === 0) return;
+		await this.load();
+
+		const refs = await this.#append(this.#generation, this.#dataSize, docs);
+		for (const [id, ref] of refs) {
+			this.#index.set(id, ref);
+			this.#dataSize = Math.max(this.#dataSize, ref.offset + ref.length);
+		}
+	}
+
+	/**
+	 * 读取多个文档，不存在的ID不包含在结果中
+	 */
+	async read(ids: Iterable<number>): Promise<Map<number, IndexableDocument>> {
+		await this.load();
+		const result = new Map<number, IndexableDocument>();
+
+		// 按块分组，每个块只读取一次
+		const blocks = new Map<number, { ref: IBlockRef, ids: number[] }>();
+		for (const id of ids) {
+			const ref = this.#index.get(id);
+			if (!ref) continue;
+			const block = blocks.get(ref.offset);
+			if (block) {
+				block.ids.push(id);
+			} else {
+				blocks.set(ref.offset, {ref, ids: [id]});
+			}
+		}
+
+		for (const {ref, ids: blockIds} of blocks.values()) {
+			const docs = await this.#readBlock(ref);
+			for (const id of blockIds) {
+				const doc = docs.get(id);
+				if (doc) result.set(id, doc);
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * 将 keep 返回 true 的文档的最新版本写入 generation 序号的文件，不修改当前使用的文件
+	 * 调用方保存元数据后调用 use 切换，再删除旧文件
+	 */
+	async compact(keep: (id: number) => boolean, generation: number): Promise<void> {
+		await this.load();
+		const ids = Array.from(this.#index.keys()).filter(keep);
+		const docs = await this.read(ids);
+
+		// 清除上次未完成的 compact 留下的文件
+		for (const filename of DocumentStore.filesOf(generation)) {
+			await this.#storage.remove(filename);
+		}
+		await this.#append(generation, 0, ids.filter(id => docs.has(id)).map(id => docs.get(id)!));
+	}
+
+	async getSize(): Promise<number> {
+		let size = 0;
+		for (const filename of DocumentStore.filesOf(this.#generation)) {
+			size += await this.#storage.getFileSize(filename);
+		}
+		return size;
+	}
+
+	/**
+	 * 将文档按块追加到某个序号的文件
+	 * @param offset 数据文件的当前大小
+	 * @returns 每个文档所在的块
+	 */
+	async #append(generation: number, offset: number, docs: IndexableDocument[]): Promise<Map<number, IBlockRef>> {
+		const [dataFile, indexFile] = DocumentStore.filesOf(generation);
+		const encoder = new TextEncoder();
+		const refs = new Map<number, IBlockRef>();
+		if (docs.length === 0) return refs;
+		const entries: number[] = [];
+		const blocks: Uint8Array<ArrayBuffer>[] = [];
+
+		for (const group of splitBlocks(docs.map(doc => [doc.id, JSON.stringify(doc)] as const))) {
+			const json = encoder.encode(`[${group.map(([id, text]) => `[${id},${text}]`).join(',')}]`);
+			const compressed = await compress(json);
+			const data = compressed ?? json;
+			const ref: IBlockRef = {offset, length: data.byteLength, flags: compressed ? FLAG_COMPRESSED : 0};
+			for (const [id] of group) {
+				entries.push(id, ref.offset, ref.length, ref.flags);
+				refs.set(id, ref);
+			}
+			blocks.push(data);
+			offset += data.byteLength;
+		}
+
+		await this.#storage.append(dataFile, concat(blocks));
+		const indexBuffer = new ArrayBuffer(entries.length * 4);
+		const view = new DataView(indexBuffer);
+		entries.forEach((value, i) => view.setUint32(i * 4, value, true));
+		await this.#storage.append(indexFile, indexBuffer);
+		return refs;
+	}
+
+	async #readBlock(ref: IBlockRef): Promise<Map<number, IndexableDocument>> {
+		if (this.#lastBlock?.offset === ref.offset) return this.#lastBlock.docs;
+
+		const buffer = await this.#storage.readRange(DocumentStore.filesOf(this.#generation)[0], ref.offset, ref.offset + ref.length);
+		const docs = new Map<number, IndexableDocument>();
+		if (buffer) {
+			let bytes = new Uint8Array(buffer);
+			if (ref.flags & FLAG_COMPRESSED) bytes = await decompress(bytes);
+			const records: [number, IndexableDocument][] = JSON.parse(new TextDecoder().decode(bytes));
+			for (const [id, doc] of records) docs.set(id, doc);
+		}
+		this.#lastBlock = {offset: ref.offset, docs};
+		return docs;
+	}
+}
+
+/**
+ * 按序列化后的大小将文档分组，每组不超过 BLOCK_SIZE（单个文档超过时独占一组）
+ */
+function splitBlocks<T extends readonly [number, string]>(records: T[]): T[][] {
+	const groups: T[][] = [];
+	let group: T[] = [];
+	let size = 0;
+	for (const record of records) {
+		if (group.length > 0 && size + record[1].length > BLOCK_SIZE) {
+			groups.push(group);
+			group = [];
+			size = 0;
+		}
+		group.push(record);
+		size += record[1].length;
+	}
+	if (group.length > 0) groups.push(group);
+	return groups;
+}
+
+function concat(chunks: Uint8Array[]): ArrayBuffer {
+	const total = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+	const result = new Uint8Array(total);
+	let offset = 0;
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return result.buffer;
+}
+
+/**
+ * 使用 deflate-raw 压缩，环境不支持 CompressionStream 时返回 null
+ */
+async function compress(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer> | null> {
+	if (typeof CompressionStream === 'undefined') return null;
+	const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function decompress(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+	const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -0,0 +1,86 @@
+/**
+ * 在有序词列表中查找与 term 的编辑距离不超过 maxDistance 的词
+ * 距离为限制性 Damerau-Levenshtein 距离（插入、删除、替换、相邻交换各计 1）
+ *
+ * 按顺序遍历词列表时复用与上一个词公共前缀部分的动态规划行，
+ * 某一行的最小值超过 maxDistance 时，以该前缀开头的词都不可能匹配，直接跳过
+ * @param count 词数量
+ * @param termAt 按下标读取词，词必须按 UTF-16 码元顺序排列
+ * @param term 查询词
+ * @param maxDistance 最大编辑距离
+ * @returns 匹配的词到编辑距离的映射
+ */
+export function findFuzzyTerms(count: number, termAt: (index: number) => string, term: string, maxDistance: number): Map<string, number> {
+	const result = new Map<string, number>();
+	const m = term.length;
+	const rows: number[][] = [Array.from({length: m + 1}, (_, j) => j)];
+	let previous = '';
+
+	let i = 0;
+	while (i < count) {
+		const candidate = termAt(i);
+
+		// 与上一个词的公共前缀部分可以复用已计算的行
+		let depth = 0;
+		const limit = Math.min(previous.length, candidate.length, rows.length - 1);
+		while (depth < limit && previous[depth] === candidate[depth]) depth++;
+
+		let pruned = false;
+		for (let d = depth + 1; d <= candidate.length; d++) {
+			const row = computeRow(rows, d, candidate, term);
+			rows[d] = row;
+			if (Math.min(...row) > maxDistance) {
+				// 以 candidate[0, d) 开头的词都无法匹配
+				i = skipPrefix(count, termAt, candidate.slice(0, d), i + 1);
+				rows.length = d + 1;
+				pruned = true;
+				break;
+			}
+		}
+		previous = candidate;
+		if (pruned) continue;
+
+		rows.length = candidate.length + 1;
+		const distance = rows[candidate.length][m];
+		if (distance <= maxDistance) result.set(candidate, distance);
+		i++;
+	}
+	return result;
+}
+
+/**
+ * 计算候选词前 d 个字符对应的动态规划行
+ */
+function computeRow(rows: number[][], d: number, candidate: string, term: string): number[] {
+	const above = rows[d - 1];
+	const c = candidate[d - 1];
+	const row = new Array<number>(term.length + 1);
+	row[0] = d;
+	for (let j = 1; j <= term.length; j++) {
+		const cost = term[j - 1] === c ? 0 : 1;
+		let value = Math.min(above[j] + 1, row[j - 1] + 1, above[j - 1] + cost);
+		// 相邻字符交换
+		if (d > 1 && j > 1 && c === term[j - 2] && candidate[d - 2] === term[j - 1]) {
+			value = Math.min(value, rows[d - 2][j - 2] + 1);
+		}
+		row[j] = value;
+	}
+	return row;
+}
+
+/**
+ * 从 from 开始查找第一个不以 prefix 开头的词的下标
+ */
+function skipPrefix(count: number, termAt: (index: number) => string, prefix: string, from: number): number {
+	let left = from;
+	let right = count;
+	while (left < right) {
+		const mid = (left + right) >>> 1;
+		if (termAt(mid).startsWith(prefix)) {
+			left = mid + 1;
+		} else {
+			right = mid;
+		}
+	}
+	return left;
+}
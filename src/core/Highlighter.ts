@@ -0,0 +1,103 @@
+import {IHighlightMatch, IHighlightOptions} from '../type';
+
+const DEFAULT_SNIPPET_LENGTH = 160;
+
+/**
+ * 在文本中定位分词结果，返回每个 token 的位置
+ * 按顺序向后查找 token（先忽略大小写，再按原文），找不到的 token（如被分词器改写过）跳过
+ * @param text 原始文本
+ * @param tokens 分词器对该文本的分词结果
+ */
+export function locateTokens(text: string, tokens: string[]): IHighlightMatch[] {
+	// 转小写后长度不变时才能用小写文本的位置对应原文
+	const lower = text.toLowerCase();
+	const haystack = lower.length === text.length ? lower : text;
+	const result: IHighlightMatch[] = [];
+	let cursor = 0;
+
+	for (const token of tokens) {
+		if (!token) continue;
+		let start = haystack.indexOf(token, cursor);
+		if (start < 0 && haystack !== text) start = text.indexOf(token, cursor);
+		if (start < 0) continue;
+		result.push({token, start, end: start + token.length});
+		cursor = start + token.length;
+	}
+	return result;
+}
+
+/**
+ * 选取包含命中词最多的片段并插入高亮标记
+ * 以每个命中词为起点计算窗口内不同命中词的数量（相同时比较命中次数），依次选取互不重叠的最佳窗口
+ * @param text 原始文本
+ * @param matches 命中词的位置，按出现顺序排列
+ */
+export function buildSnippets(text: string, matches: IHighlightMatch[], options: IHighlightOptions = {}): string[] {
+	const length = Math.max(1, options.snippetLength ?? DEFAULT_SNIPPET_LENGTH);
+	const maxSnippets = Math.max(1, options.maxSnippets ?? 1);
+
+	if (matches.length === 0) {
+		return [renderSnippet(text, 0, Math.min(text.length, length), [], options)];
+	}
+
+	const windows: { from: number, to: number, distinct: number }[] = [];
+	for (let i = 0; i < matches.length; i++) {
+		const tokens = new Set<string>();
+		let j = i;
+		while (j < matches.length && (j === i || matches[j].end - matches[i].start <= length)) {
+			tokens.add(matches[j].token);
+			j++;
+		}
+		windows.push({from: i, to: j, distinct: tokens.size});
+	}
+	windows.sort((a, b) => b.distinct - a.distinct || (b.to - b.from) - (a.to - a.from) || a.from - b.from);
+
+	const selected: { start: number, end: number }[] = [];
+	for (const window of windows) {
+		if (selected.length >= maxSnippets) break;
+		const start = matches[window.from].start;
+		const end = matches[window.to - 1].end;
+		if (selected.some(range => start < range.end && end > range.start)) continue;
+		selected.push({start, end});
+	}
+	selected.sort((a, b) => a.start - b.start);
+
+	return selected.map(({start, end}) => {
+		// 命中词两侧平均补充上下文，靠近文本边界时向另一侧补足
+		const padding = Math.max(0, Math.floor((length - (end - start)) / 2));
+		let from = Math.max(0, start - padding);
+		const to = Math.min(text.length, Math.max(end, from + length));
+		from = Math.max(0, Math.min(from, to - length));
+		return renderSnippet(text, from, to, matches, options, start, end);
+	});
+}
+
+/**
+ * 截取 [from, to) 并为其中的命中词插入标记
+ * 截断处尽量对齐到空白字符，但不会截掉 [keepStart, keepEnd) 范围内的命中词
+ */
+function renderSnippet(text: string, from: number, to: number, matches: IHighlightMatch[], options: IHighlightOptions,
+					   keepStart: number = to, keepEnd: number = from): string {
+	const {preTag = '<mark>', postTag = '</mark>', ellipsis = '…'} = options;
+
+	if (from > 0) {
+		const space = text.slice(from, keepStart).search(/\s/);
+		if (space >= 0) from += space + 1;
+	}
+	if (to < text.length) {
+		const tail = text.slice(keepEnd, to);
+		const space = tail.search(/\s\S*$/);
+		if (space >= 0) to = keepEnd + space;
+	}
+
+	let result = from > 0 ? ellipsis : '';
+	let cursor = from;
+	for (const match of matches) {
+		if (match.start < from || match.end > to) continue;
+		result += text.slice(cursor, match.start) + preTag + text.slice(match.start, match.end) + postTag;
+		cursor = match.end;
+	}
+	result += text.slice(cursor, to);
+	if (to < text.length) result += ellipsis;
+	return result;
+}
@@ -1,11 +1,16 @@
-import {IHashAlgorithm32, IHashAlgorithm64, IStorage, ITokenizedDoc, IIndexSegment} from '../type';
+import {IHashAlgorithm32, IHashAlgorithm64, IStorage, ITokenizedDoc, IIndexSegment, IPosting} from '../type';
 import {Murmur3_32} from './hash/Murmur3';
+import {PostingPayload} from './PostingPayload';
+import {TermTable} from './TermTable';
+import {findFuzzyTerms} from './FuzzyMatcher';
 
 export class IndexSegment implements IIndexSegment {
 	#filename: string;
 	#storage: IStorage;
 	#buffer: ArrayBuffer | null = null;
 	#view: DataView | null = null;
+	#payload: PostingPayload | null = null;
+	#terms: TermTable | null = null;
 	#hashAlgorithm: IHashAlgorithm32;
 
 	/**
@@ -43,27 +48,54 @@ export class IndexSegment implements IIndexSegment {
 		this.#buffer = await this.#storage.read(this.#filename);
 		if (this.#buffer) {
 			this.#view = new DataView(this.#buffer);
+			this.#payload = await PostingPayload.load(this.#storage, this.#filename);
+			this.#terms = await TermTable.load(this.#storage, this.#filename);
 			return true;
 		}
 		return false;
 	}
 
 	async buildAndSave(docs: ITokenizedDoc[]): Promise<void> {
-		const tokenMap = new Map<string, { hash: number; postings: number[] }>();
+		const tokenMap = new Map<string, { hash: number; postings: number[]; frequencies: number[]; positions: number[][]; fields: number[][] }>();
+		let hasPositions = false;
+		let hasFields = false;
 
-		// 去重并构建 postings
+		// 去重并构建 postings，同时统计每个文档中 token 的词频、出现位置与所属字段
 		for (const doc of docs) {
-			const uniqueTokens = new Map<string, boolean>();
-			for (const token of doc.tokens) {
-				if (!uniqueTokens.has(token)) {
-					uniqueTokens.set(token, true);
-					if (!tokenMap.has(token)) {
-						tokenMap.set(token, {
-							hash: this.hash(token),
-							postings: []
-						});
-					}
-					tokenMap.get(token)!.postings.push(doc.id);
+			const docPostings = new Map<string, number>();
+			if (doc.positions) hasPositions = true;
+			if (doc.fields) hasFields = true;
+			for (let i = 0; i < doc.tokens.length; i++) {
+				const token = doc.tokens[i];
+				if (!tokenMap.has(token)) {
+					tokenMap.set(token, {
+						hash: this.hash(token),
+						postings: [],
+						frequencies: [],
+						positions: [],
+						fields: []
+					});
+				}
+				const entry = tokenMap.get(token)!;
+				let index = docPostings.get(token);
+				if (index === undefined) {
+					index = entry.postings.length;
+					docPostings.set(token, index);
+					entry.postings.push(doc.id);
+					entry.frequencies.push(0);
+					entry.positions.push([]);
+					entry.fields.push([]);
+				}
+				entry.frequencies[index]++;
+				if (doc.positions) entry.positions[index].push(doc.positions[i]);
+
+				// 字段信息为 [字段ID, 词频, ...]，同一字段的 token 在文档中是连续的
+				const fields = entry.fields[index];
+				const field = doc.fields?.[i] ?? 0;
+				if (fields.length > 0 && fields[fields.length - 2] === field) {
+					fields[fields.length - 1]++;
+				} else {
+					fields.push(field, 1);
 				}
 			}
 		}
@@ -139,10 +171,91 @@ export class IndexSegment implements IIndexSegment {
 		await this.#storage.write(this.#filename, buffer);
 		this.#buffer = buffer;
 		this.#view = view;
+
+		// 词频、位置与字段信息写入附加数据文件，顺序与 postings 一致
+		const payloadBuffer = PostingPayload.encode(
+			entries.flatMap(([, {frequencies}]) => frequencies),
+			hasPositions ? entries.flatMap(([, {positions}]) => positions) : undefined,
+			hasFields ? entries.flatMap(([, {fields}]) => fields) : undefined
+		);
+		await this.#storage.write(PostingPayload.filenameOf(this.#filename), payloadBuffer);
+		this.#payload = new PostingPayload(payloadBuffer);
+
+		// 有序词表用于前缀与通配符查询
+		const termsBuffer = TermTable.encode(entries.map(([token]) => token));
+		await this.#storage.write(TermTable.filenameOf(this.#filename), termsBuffer);
+		this.#terms = new TermTable(termsBuffer);
 	}
 
 	search(term: string): number[] {
+		const entryPos = this.#findEntry(term);
+		if (entryPos < 0) return [];
+		const view = this.#view!;
+		const postingsOffset = view.getUint32(entryPos + 12, true);
+		const postingsLen = view.getUint32(entryPos + 16, true);
+		const result: number[] = [];
+		for (let j = 0; j < postingsLen; j++) {
+			result.push(view.getUint32(postingsOffset + j * 4, true));
+		}
+		return result;
+	}
+
+	postingCount(term: string): number {
+		const entryPos = this.#findEntry(term);
+		return entryPos < 0 ? 0 : this.#view!.getUint32(entryPos + 16, true);
+	}
+
+	searchPostings(term: string): IPosting[] {
+		const entryPos = this.#findEntry(term);
+		if (entryPos < 0) return [];
+		const view = this.#view!;
+		const postingsOffset = view.getUint32(entryPos + 12, true);
+		const postingsLen = view.getUint32(entryPos + 16, true);
+		// postings 在文件中连续存放，由偏移换算出全局下标以读取附加数据
+		const postingsStart = 12 + view.getUint32(4, true) * 20;
+		const base = (postingsOffset - postingsStart) / 4;
+		const result: IPosting[] = [];
+		for (let j = 0; j < postingsLen; j++) {
+			result.push({
+				id: view.getUint32(postingsOffset + j * 4, true),
+				frequency: this.#payload?.getFrequency(base + j),
+				positions: this.#payload?.getPositions(base + j),
+				fields: this.#payload?.getFields(base + j)
+			});
+		}
+		return result;
+	}
+
+	listTerms(prefix: string): string[] {
+		if (this.#terms) return this.#terms.listTerms(prefix);
 		if (!this.#view || !this.#buffer) return [];
+
+		// 旧版本索引段没有有序词表，逐项扫描字典
+		const count = this.#view.getUint32(4, true);
+		const decoder = new TextDecoder();
+		const result: string[] = [];
+		for (let i = 0; i < count; i++) {
+			const entryPos = 12 + i * 20;
+			const tokenLen = this.#view.getUint32(entryPos + 4, true);
+			const tokenOffset = this.#view.getUint32(entryPos + 8, true);
+			const token = decoder.decode(new Uint8Array(this.#buffer, tokenOffset, tokenLen));
+			if (token.startsWith(prefix)) result.push(token);
+		}
+		return result.sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+	}
+
+	fuzzyTerms(term: string, maxDistance: number): Map<string, number> {
+		if (this.#terms) return this.#terms.fuzzyTerms(term, maxDistance);
+		const terms = this.listTerms('');
+		return findFuzzyTerms(terms.length, i => terms[i], term, maxDistance);
+	}
+
+	/**
+	 * 查找词对应的字典项
+	 * @returns 字典项在文件中的字节位置，未找到返回 -1
+	 */
+	#findEntry(term: string): number {
+		if (!this.#view || !this.#buffer) return -1;
 		const h = this.hash(term);
 		const count = this.#view.getUint32(4, true);
 
@@ -168,14 +281,8 @@ export class IndexSegment implements IIndexSegment {
 					(mid < count - 1 && this.#view.getUint32(headerSize + (mid + 1) * entrySize, true) === h);
 
 				if (!hasConflict) {
-					// 无冲突，直接返回当前条目的postings
-					const postingsOffset = this.#view.getUint32(headerSize + mid * entrySize + 12, true);
-					const postingsLen = this.#view.getUint32(headerSize + mid * entrySize + 16, true);
-					const result: number[] = [];
-					for (let j = 0; j < postingsLen; j++) {
-						result.push(this.#view.getUint32(postingsOffset + j * 4, true));
-					}
-					return result;
+					// 无冲突，直接返回当前条目
+					return entryPos;
 				}
 
 				// 存在冲突，需要检查实际token是否匹配
@@ -204,19 +311,13 @@ export class IndexSegment implements IIndexSegment {
 					const storedToken = decoder.decode(tokenBuffer);
 
 					if (storedToken === term) {
-						// 找到完全匹配的token，返回postings
-						const postingsOffset = this.#view.getUint32(checkPos + 12, true);
-						const postingsLen = this.#view.getUint32(checkPos + 16, true);
-						const result: number[] = [];
-						for (let j = 0; j < postingsLen; j++) {
-							result.push(this.#view.getUint32(postingsOffset + j * 4, true));
-						}
-						return result;
+						// 找到完全匹配的token
+						return checkPos;
 					}
 				}
-				return [];
+				return -1;
 			}
 		}
-		return [];
+		return -1;
 	}
 }
@@ -2,17 +2,42 @@ import { IStorage, ITokenizedDoc } from '../type';
 
 export class IntermediateCache {
     static readonly SEPARATOR = 0x1E;
+    // token 数量的最高位：记录中每个 token 后附带 4 字节位置
+    static readonly POSITIONS_FLAG = 0x80000000;
+    // token 数量的次高位：记录中每个 token（及位置）后附带 2 字节字段ID
+    static readonly FIELDS_FLAG = 0x40000000;
     #storage: IStorage;
 
     constructor(storage: IStorage) {
         this.#storage = storage;
     }
 
-    async appendBatch(filename: string, docs: ITokenizedDoc[]): Promise<number> {
+    /**
+     * 追加一批文档记录
+     * @returns 每个文档记录在缓存文件中的起始字节位置
+     */
+    async appendBatch(filename: string, docs: ITokenizedDoc[]): Promise<number[]> {
         if (docs.length === 0) {
-            return await this.#storage.getFileSize(filename);
+            return [];
         }
 
+        const baseOffset = await this.#storage.getFileSize(filename);
+        const {buffer, offsets} = this.#encode(docs, baseOffset);
+        await this.#storage.append(filename, buffer);
+        return offsets;
+    }
+
+    /**
+     * 用给定的文档记录整体重写缓存文件
+     * @returns 每个文档记录在新缓存文件中的起始字节位置
+     */
+    async rewrite(filename: string, docs: ITokenizedDoc[]): Promise<number[]> {
+        const {buffer, offsets} = this.#encode(docs, 0);
+        await this.#storage.write(filename, buffer);
+        return offsets;
+    }
+
+    #encode(docs: ITokenizedDoc[], baseOffset: number): { buffer: ArrayBuffer, offsets: number[] } {
         const encoder = new TextEncoder();
         let totalLen = 0;
 
@@ -22,15 +47,19 @@ export class IntermediateCache {
             for (const token of doc.tokens) {
                 const tokenLen = Math.min(encoder.encode(token).byteLength, 65535);
                 totalLen += 2 + tokenLen; // token length (2) + token data
+                if (doc.positions) totalLen += 4; // position (4)
+                if (doc.fields) totalLen += 2; // field id (2)
             }
             totalLen += 1; // separator
         }
 
         // 一次性分配足够的内存
         const combined = new Uint8Array(totalLen);
+        const offsets: number[] = [];
         let pos = 0;
 
         for (const doc of docs) {
+            offsets.push(baseOffset + pos);
             const tokenBuffers: Uint8Array[] = [];
 
             // 编码所有token，计算文档大小
@@ -43,30 +72,76 @@ export class IntermediateCache {
             // 写入文档头部
             const view = new DataView(combined.buffer, pos);
             view.setUint32(0, doc.id, true);
-            view.setUint32(4, tokenBuffers.length, true);
+            const flags = (doc.positions ? IntermediateCache.POSITIONS_FLAG : 0) | (doc.fields ? IntermediateCache.FIELDS_FLAG : 0);
+            view.setUint32(4, (tokenBuffers.length | flags) >>> 0, true);
             pos += 8;
 
             // 写入所有token
-            for (const buf of tokenBuffers) {
+            for (let i = 0; i < tokenBuffers.length; i++) {
+                const buf = tokenBuffers[i];
                 const tokenView = new DataView(combined.buffer, pos);
                 tokenView.setUint16(0, buf.byteLength, true);
                 pos += 2;
                 combined.set(buf, pos);
                 pos += buf.byteLength;
+                if (doc.positions) {
+                    new DataView(combined.buffer, pos).setUint32(0, doc.positions[i], true);
+                    pos += 4;
+                }
+                if (doc.fields) {
+                    new DataView(combined.buffer, pos).setUint16(0, doc.fields[i], true);
+                    pos += 2;
+                }
             }
 
             // 写入分隔符
             combined[pos++] = IntermediateCache.SEPARATOR;
         }
 
-        await this.#storage.append(filename, combined.buffer);
-        return await this.#storage.getFileSize(filename);
+        return {buffer: combined.buffer, offsets};
     }
 
     async readRange(filename: string, start: number, end: number): Promise<ITokenizedDoc[]> {
         const buffer = await this.#storage.readRange(filename, start, end);
         if (!buffer || buffer.byteLength === 0) return [];
+        return this.#decode(buffer);
+    }
+
+    /**
+     * 读取从 offset 开始的一条文档记录
+     * 记录长度事先未知，从较小的范围开始读取，记录不完整时加倍，最多读到 end
+     */
+    async readAt(filename: string, offset: number, end: number): Promise<ITokenizedDoc | undefined> {
+        for (let size = 4096; ; size *= 2) {
+            const stop = Math.min(offset + size, end);
+            const buffer = await this.#storage.readRange(filename, offset, stop);
+            if (!buffer || buffer.byteLength === 0) return undefined;
+            if (stop >= end || this.#isComplete(new DataView(buffer))) return this.#decode(buffer, 1)[0];
+        }
+    }
+
+    /**
+     * 判断缓冲区开头的文档记录是否完整
+     */
+    #isComplete(view: DataView): boolean {
+        const max = view.byteLength;
+        if (8 > max) return false;
+        const header = view.getUint32(4, true);
+        const count = header & ~(IntermediateCache.POSITIONS_FLAG | IntermediateCache.FIELDS_FLAG);
+        const extra = ((header & IntermediateCache.POSITIONS_FLAG) !== 0 ? 4 : 0) + ((header & IntermediateCache.FIELDS_FLAG) !== 0 ? 2 : 0);
+        let offset = 8;
+        for (let i = 0; i < count; i++) {
+            if (offset + 2 > max) return false;
+            offset += 2 + view.getUint16(offset, true) + extra;
+        }
+        return offset <= max;
+    }
 
+    /**
+     * 解码文档记录
+     * @param limit 最多解码的记录数
+     */
+    #decode(buffer: ArrayBuffer, limit: number = Infinity): ITokenizedDoc[] {
         const view = new DataView(buffer);
         const uint8 = new Uint8Array(buffer);
         const decoder = new TextDecoder();
@@ -75,11 +150,16 @@ export class IntermediateCache {
         let offset = 0;
         const max = buffer.byteLength;
 
-        while (offset < max) {
+        while (offset < max && docs.length < limit) {
             if (offset + 8 > max) break;
             const id = view.getUint32(offset, true); offset += 4;
-            const count = view.getUint32(offset, true); offset += 4;
+            const header = view.getUint32(offset, true); offset += 4;
+            const hasPositions = (header & IntermediateCache.POSITIONS_FLAG) !== 0;
+            const hasFields = (header & IntermediateCache.FIELDS_FLAG) !== 0;
+            const count = header & ~(IntermediateCache.POSITIONS_FLAG | IntermediateCache.FIELDS_FLAG);
             const tokens: string[] = [];
+            const positions: number[] = [];
+            const fields: number[] = [];
             for (let i = 0; i < count; i++) {
                 if (offset + 2 > max) break;
                 const len = view.getUint16(offset, true); offset += 2;
@@ -87,11 +167,22 @@ export class IntermediateCache {
                 const textBuf = new Uint8Array(buffer, offset, len);
                 tokens.push(decoder.decode(textBuf));
                 offset += len;
+                if (hasPositions) {
+                    if (offset + 4 > max) break;
+                    positions.push(view.getUint32(offset, true)); offset += 4;
+                }
+                if (hasFields) {
+                    if (offset + 2 > max) break;
+                    fields.push(view.getUint16(offset, true)); offset += 2;
+                }
             }
             if (offset < max && uint8[offset] === IntermediateCache.SEPARATOR) {
                 offset += 1;
             }
-            docs.push({ id, tokens });
+            const doc: ITokenizedDoc = { id, tokens };
+            if (hasPositions) doc.positions = positions;
+            if (hasFields) doc.fields = fields;
+            docs.push(doc);
         }
         return docs;
     }
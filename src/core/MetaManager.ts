@@ -1,11 +1,25 @@
-import { IIndexMeta, IndexType, ISegmentMeta, IStorage } from '../type';
+import { IDocumentVersion, IIndexMeta, IndexType, ISegmentMeta, IStorage } from '../type';
 
 const META_FILE = 'search_meta.json';
 const DELETED_IDS_FILE = 'deleted_ids.bin';
 const ADDED_IDS_FILE = 'added_ids.bin';
+const VERSIONS_FILE = 'doc_versions.bin';
+const LENGTHS_FILE = 'doc_lengths.bin';
 const SEPARATOR = 0x1E;
+// 文档版本中表示“该类型没有任何 token”的偏移值
+const NO_OFFSET = 0xFFFFFFFF;
+// 普通文档的 text 字段固定为 0 号字段
+const DEFAULT_FIELD = 'text';
 
 export class MetaManager {
+    /**
+     * 某个序号的文档版本文件名
+     * 文档版本记录的是中间缓存中的位置，与中间缓存使用相同的序号，元数据切换到新序号时不会读到旧缓存的位置
+     */
+    static versionsFileOf(generation: number): string {
+        return generation > 0 ? VERSIONS_FILE.replace(/\.bin$/, `_${generation}.bin`) : VERSIONS_FILE;
+    }
+
     #storage: IStorage;
     #meta: IIndexMeta = {
         wordSegments: [],
@@ -13,6 +27,9 @@ export class MetaManager {
     };
     #deletedIds: Set<number> = new Set();
     #addedIds: Set<number> = new Set();
+    #versions: Map<number, IDocumentVersion> = new Map();
+    #docLengths: Map<number, number> = new Map();
+    #totalDocLength: number = 0;
 
     constructor(storage: IStorage) {
         this.#storage = storage;
@@ -65,6 +82,48 @@ export class MetaManager {
                 }
             }
         }
+
+        // 加载被更新过的文档的最新版本位置
+        const versionsBuffer = await this.#storage.read(MetaManager.versionsFileOf(this.getGeneration()));
+        if (versionsBuffer) {
+            const view = new DataView(versionsBuffer);
+            let offset = 0;
+            const max = versionsBuffer.byteLength;
+
+            while (offset < max) {
+                if (offset + 12 > max) break;
+                const id = view.getUint32(offset, true);
+                const word = view.getUint32(offset + 4, true);
+                const char = view.getUint32(offset + 8, true);
+                this.#versions.set(id, {
+                    word: word === NO_OFFSET ? -1 : word,
+                    char: char === NO_OFFSET ? -1 : char
+                });
+                offset += 12;
+
+                if (offset < max && view.getUint8(offset) === SEPARATOR) {
+                    offset += 1;
+                }
+            }
+        }
+
+        // 加载文档长度（token 数）
+        const lengthsBuffer = await this.#storage.read(LENGTHS_FILE);
+        if (lengthsBuffer) {
+            const view = new DataView(lengthsBuffer);
+            let offset = 0;
+            const max = lengthsBuffer.byteLength;
+
+            while (offset < max) {
+                if (offset + 8 > max) break;
+                this.setDocLength(view.getUint32(offset, true), view.getUint32(offset + 4, true));
+                offset += 8;
+
+                if (offset < max && view.getUint8(offset) === SEPARATOR) {
+                    offset += 1;
+                }
+            }
+        }
     }
 
     async save(): Promise<void> {
@@ -109,6 +168,47 @@ export class MetaManager {
 
             await this.#storage.write(ADDED_IDS_FILE, buffer);
         }
+
+        // 保存文档版本
+        if (this.#versions.size === 0) {
+            await this.#storage.remove(MetaManager.versionsFileOf(this.getGeneration()));
+        } else {
+            const totalSize = this.#versions.size * 12 + this.#versions.size; // 4字节ID + 2*4字节偏移 + 1字节分隔符
+            const buffer = new ArrayBuffer(totalSize);
+            const view = new DataView(buffer);
+            let offset = 0;
+
+            for (const [id, {word, char}] of this.#versions) {
+                view.setUint32(offset, id, true);
+                view.setUint32(offset + 4, word < 0 ? NO_OFFSET : word, true);
+                view.setUint32(offset + 8, char < 0 ? NO_OFFSET : char, true);
+                offset += 12;
+                view.setUint8(offset, SEPARATOR);
+                offset += 1;
+            }
+
+            await this.#storage.write(MetaManager.versionsFileOf(this.getGeneration()), buffer);
+        }
+
+        // 保存文档长度
+        if (this.#docLengths.size === 0) {
+            await this.#storage.remove(LENGTHS_FILE);
+        } else {
+            const totalSize = this.#docLengths.size * 8 + this.#docLengths.size; // 4字节ID + 4字节长度 + 1字节分隔符
+            const buffer = new ArrayBuffer(totalSize);
+            const view = new DataView(buffer);
+            let offset = 0;
+
+            for (const [id, length] of this.#docLengths) {
+                view.setUint32(offset, id, true);
+                view.setUint32(offset + 4, length, true);
+                offset += 8;
+                view.setUint8(offset, SEPARATOR);
+                offset += 1;
+            }
+
+            await this.#storage.write(LENGTHS_FILE, buffer);
+        }
     }
 
     getSegments(type: IndexType): ISegmentMeta[] {
@@ -123,6 +223,17 @@ export class MetaManager {
         this.#deletedIds.add(id);
     }
 
+    removeDeletedId(id: number): void {
+        this.#deletedIds.delete(id);
+    }
+
+    /**
+     * 清空已删除ID集合，仅在已删除文档的数据被物理清除后调用
+     */
+    clearDeletedIds(): void {
+        this.#deletedIds.clear();
+    }
+
     isDeleted(id: number): boolean {
         return this.#deletedIds.has(id);
     }
@@ -152,6 +263,106 @@ export class MetaManager {
         return this.#addedIds.has(id) || this.#deletedIds.has(id);
     }
 
+    /**
+     * 记录文档最新版本在缓存中的位置，旧版本的 postings 将被忽略
+     * 每次写入文档都会记录；旧版本的索引只记录了更新过的文档
+     * @param id 文档ID
+     * @param version 最新版本在 word/char 缓存中的起始位置
+     */
+    setVersion(id: number, version: IDocumentVersion): void {
+        this.#versions.set(id, version);
+    }
+
+    getVersion(id: number): IDocumentVersion | undefined {
+        return this.#versions.get(id);
+    }
+
+    /**
+     * 清空文档版本记录，仅在旧版本的数据被物理清除后调用
+     */
+    clearVersions(): void {
+        this.#versions.clear();
+    }
+
+    /**
+     * 判断某个索引段中该文档的 postings 是否属于最新版本
+     * 没有版本记录的文档（旧版本索引中未更新过的文档）只有一个版本，始终返回 true
+     */
+    isCurrentVersion(id: number, type: IndexType, segment: ISegmentMeta): boolean {
+        const version = this.#versions.get(id);
+        if (!version) return true;
+        const offset = version[type];
+        return offset >= segment.start && offset < segment.end;
+    }
+
+    /**
+     * 记录文档最新版本的长度（token 数），用于相关性评分
+     */
+    setDocLength(id: number, length: number): void {
+        this.#totalDocLength += length - (this.#docLengths.get(id) ?? 0);
+        this.#docLengths.set(id, length);
+    }
+
+    getDocLength(id: number): number | undefined {
+        return this.#docLengths.get(id);
+    }
+
+    removeDocLength(id: number): void {
+        this.#totalDocLength -= this.#docLengths.get(id) ?? 0;
+        this.#docLengths.delete(id);
+    }
+
+    /**
+     * 获取未删除文档的数量与总长度
+     */
+    getDocLengthStats(): { count: number, totalLength: number } {
+        let count = this.#docLengths.size;
+        let totalLength = this.#totalDocLength;
+        for (const id of this.#deletedIds) {
+            const length = this.#docLengths.get(id);
+            if (length === undefined) continue;
+            count--;
+            totalLength -= length;
+        }
+        return { count, totalLength };
+    }
+
+    /**
+     * 获取所有字段名，下标为字段ID
+     */
+    getFields(): readonly string[] {
+        return this.#meta.fields ?? [DEFAULT_FIELD];
+    }
+
+    getFieldId(name: string): number | undefined {
+        const id = this.getFields().indexOf(name);
+        return id < 0 ? undefined : id;
+    }
+
+    /**
+     * 获取字段ID，字段不存在时注册新字段
+     */
+    registerField(name: string): number {
+        const fields = this.#meta.fields ??= [DEFAULT_FIELD];
+        let id = fields.indexOf(name);
+        if (id < 0) {
+            if (fields.length > 0xFFFF) throw new Error(`Too many fields, cannot register field "${name}".`);
+            id = fields.push(name) - 1;
+        }
+        return id;
+    }
+
+    /**
+     * 获取数据文件的序号，每次 compact 完成后加1
+     */
+    getGeneration(): number {
+        return this.#meta.generation ?? 0;
+    }
+
+    setGeneration(generation: number): void {
+        this.#meta.generation = generation;
+    }
+
     getLastSegmentInfo(type: IndexType) {
         const segments = this.getSegments(type);
         if (segments.length === 0) return null;
@@ -171,9 +382,23 @@ export class MetaManager {
         }
     }
 
+    /**
+     * 整体替换某类型的索引段列表
+     */
+    setSegments(type: IndexType, segments: ISegmentMeta[]) {
+        if (type === 'word') {
+            this.#meta.wordSegments = segments;
+        } else {
+            this.#meta.charSegments = segments;
+        }
+    }
+
     reset() {
         this.#meta = { wordSegments: [], charSegments: [] };
         this.#deletedIds.clear();
         this.#addedIds.clear();
+        this.#versions.clear();
+        this.#docLengths.clear();
+        this.#totalDocLength = 0;
     }
 }
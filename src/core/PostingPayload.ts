@@ -0,0 +1,162 @@
+import {IStorage} from '../type';
+
+/**
+ * 倒排记录附加数据（词频、位置与字段信息）
+ * 与索引段文件中的 postings 数组一一对应，按 postings 的全局下标读取
+ *
+ * 结构（含位置或字段信息时）：
+ *  Header: 12 (magic + postings 数量 + 标志位)
+ *  Offsets: (postingCount + 1) * 4，每条 posting 数据的起始字节位置
+ *  Data: 每条 posting 依次为
+ *    - 含位置信息时：位置数量(4) + 位置列表(4 * n)，位置数量即词频
+ *    - 含字段信息时：字段数量(4) + (字段ID(4) + 该字段中的词频(4)) * k，按字段在文档中的顺序排列
+ *
+ * 结构（仅词频时）：
+ *  Header: 12
+ *  Frequencies: postingCount * 4
+ */
+export class PostingPayload {
+	static readonly MAGIC = 0x5041594C; // 'PAYL'
+	static readonly FLAG_POSITIONS = 0x1;
+	static readonly FLAG_FREQUENCIES = 0x2;
+	static readonly FLAG_FIELDS = 0x4;
+
+	#view: DataView;
+
+	constructor(buffer: ArrayBuffer) {
+		this.#view = new DataView(buffer);
+	}
+
+	/**
+	 * 由索引段文件名得到附加数据文件名，如 word_seg_1.bin -> word_pay_1.bin
+	 */
+	static filenameOf(segmentFilename: string): string {
+		return segmentFilename.replace('_seg_', '_pay_');
+	}
+
+	/**
+	 * 读取附加数据文件，文件不存在或格式不符时返回 null
+	 */
+	static async load(storage: IStorage, segmentFilename: string): Promise<PostingPayload | null> {
+		const buffer = await storage.read(PostingPayload.filenameOf(segmentFilename));
+		if (!buffer || buffer.byteLength < 12) return null;
+		if (new DataView(buffer).getUint32(0) !== PostingPayload.MAGIC) return null;
+		return new PostingPayload(buffer);
+	}
+
+	/**
+	 * 编码附加数据
+	 * @param frequencies 按 postings 全局顺序排列的词频
+	 * @param positions 按 postings 全局顺序排列的位置列表，不存储位置时省略
+	 * @param fields 按 postings 全局顺序排列的 [字段ID, 词频, ...] 列表，不存储字段时省略
+	 */
+	static encode(frequencies: number[], positions?: number[][], fields?: number[][]): ArrayBuffer {
+		const count = frequencies.length;
+		const headerSize = 12;
+
+		if (!positions && !fields) {
+			const buffer = new ArrayBuffer(headerSize + count * 4);
+			const view = new DataView(buffer);
+			view.setUint32(0, PostingPayload.MAGIC);
+			view.setUint32(4, count, true);
+			view.setUint32(8, PostingPayload.FLAG_FREQUENCIES, true);
+			for (let i = 0; i < count; i++) {
+				view.setUint32(headerSize + i * 4, frequencies[i], true);
+			}
+			return buffer;
+		}
+
+		const offsetsSize = (count + 1) * 4;
+		let dataSize = 0;
+		if (positions) for (const list of positions) dataSize += 4 + list.length * 4;
+		if (fields) for (const list of fields) dataSize += 4 + list.length * 4;
+
+		const buffer = new ArrayBuffer(headerSize + offsetsSize + dataSize);
+		const view = new DataView(buffer);
+		let flags = PostingPayload.FLAG_FREQUENCIES;
+		if (positions) flags |= PostingPayload.FLAG_POSITIONS;
+		if (fields) flags |= PostingPayload.FLAG_FIELDS;
+		view.setUint32(0, PostingPayload.MAGIC);
+		view.setUint32(4, count, true);
+		view.setUint32(8, flags, true);
+
+		let dataOffset = headerSize + offsetsSize;
+		const writeList = (list: number[], length: number) => {
+			view.setUint32(dataOffset, length, true);
+			dataOffset += 4;
+			for (const value of list) {
+				view.setUint32(dataOffset, value, true);
+				dataOffset += 4;
+			}
+		};
+		for (let i = 0; i < count; i++) {
+			view.setUint32(headerSize + i * 4, dataOffset, true);
+			if (positions) writeList(positions[i], positions[i].length);
+			if (fields) writeList(fields[i], fields[i].length / 2);
+		}
+		view.setUint32(headerSize + count * 4, dataOffset, true);
+		return buffer;
+	}
+
+	/**
+	 * 获取第 index 条 posting 的词频
+	 */
+	getFrequency(index: number): number | undefined {
+		const view = this.#view;
+		if (index >= view.getUint32(4, true)) return undefined;
+		const flags = view.getUint32(8, true);
+		if (flags & PostingPayload.FLAG_POSITIONS) {
+			return view.getUint32(view.getUint32(12 + index * 4, true), true);
+		}
+		if (flags & PostingPayload.FLAG_FIELDS) {
+			let frequency = 0;
+			this.getFields(index)!.forEach(count => frequency += count);
+			return frequency;
+		}
+		if (flags & PostingPayload.FLAG_FREQUENCIES) {
+			return view.getUint32(12 + index * 4, true);
+		}
+		return undefined;
+	}
+
+	/**
+	 * 获取第 index 条 posting 的位置列表
+	 */
+	getPositions(index: number): number[] | undefined {
+		const view = this.#view;
+		if (index >= view.getUint32(4, true)) return undefined;
+		if (!(view.getUint32(8, true) & PostingPayload.FLAG_POSITIONS)) return undefined;
+
+		let offset = view.getUint32(12 + index * 4, true);
+		const length = view.getUint32(offset, true);
+		offset += 4;
+		const positions: number[] = new Array(length);
+		for (let i = 0; i < length; i++) {
+			positions[i] = view.getUint32(offset + i * 4, true);
+		}
+		return positions;
+	}
+
+	/**
+	 * 获取第 index 条 posting 的字段ID到词频的映射
+	 */
+	getFields(index: number): Map<number, number> | undefined {
+		const view = this.#view;
+		if (index >= view.getUint32(4, true)) return undefined;
+		const flags = view.getUint32(8, true);
+		if (!(flags & PostingPayload.FLAG_FIELDS)) return undefined;
+
+		let offset = view.getUint32(12 + index * 4, true);
+		// 跳过位置信息
+		if (flags & PostingPayload.FLAG_POSITIONS) {
+			offset += 4 + view.getUint32(offset, true) * 4;
+		}
+		const length = view.getUint32(offset, true);
+		offset += 4;
+		const fields = new Map<number, number>();
+		for (let i = 0; i < length; i++) {
+			fields.set(view.getUint32(offset + i * 8, true), view.getUint32(offset + i * 8 + 4, true));
+		}
+		return fields;
+	}
+}
@@ -0,0 +1,284 @@
+import {IBooleanQuery, IPhraseQuery, IQuery} from '../type';
+
+type Occur = 'must' | 'should' | 'mustNot';
+
+interface IQueryToken {
+	type: 'word' | 'phrase' | 'open' | 'close';
+	text: string;
+	start: number;
+	end: number;
+	slop?: number;
+	prefix?: '+' | '-';
+	field?: string;
+}
+
+interface IClause {
+	query: IQuery;
+	occur: Occur;
+	/**
+	 * 普通词在词法单元中的下标，用于合并相邻的普通词
+	 */
+	wordIndex?: number;
+	start?: number;
+	end?: number;
+}
+
+const isSpace = (c: string) => /\s/.test(c);
+
+/**
+ * 词中有与字母或数字相邻的 *，或两侧都是字母或数字的 ? 时视为通配符
+ * 末尾或开头的 ?（如 what?、why?!）是普通文本中的标点
+ */
+const isWildcard = (word: string) =>
+	/[\p{L}\p{N}][*?]*\*|\*[*?]*[\p{L}\p{N}]|[\p{L}\p{N}][*?]*\?[*?]*[\p{L}\p{N}]/u.test(word);
+
+/**
+ * +/- 后紧跟字母、数字、引号或左括号时才是运算符，如 --verbose 中的 - 不是运算符
+ */
+const isOperand = (c: string | undefined) => c !== undefined && /[\p{L}\p{N}"(]/u.test(c);
+
+/**
+ * 由词得到前缀、通配符或普通词查询
+ * 只有末尾一个 * 时为前缀查询；只由 * 与 ? 组成的词被忽略
+ */
+function wordQuery(word: string): IQuery | null {
+	if (!/[^*?]/.test(word)) return null;
+	if (!isWildcard(word)) return {term: word};
+	const prefix = word.slice(0, -1);
+	if (word.endsWith('*') && !isWildcard(prefix)) return {prefix};
+	return {wildcard: word};
+}
+
+/**
+ * 为查询及其子查询中未限定字段的部分设置字段
+ */
+function withField(query: IQuery, field?: string): IQuery {
+	if (!field) return query;
+	if ('must' in query || 'should' in query || 'mustNot' in query) {
+		const result: IBooleanQuery = {};
+		for (const occur of ['must', 'should', 'mustNot'] as Occur[]) {
+			if (query[occur]) result[occur] = query[occur]!.map(clause => withField(clause, field));
+		}
+		return result;
+	}
+	return 'field' in query && query.field ? query : {...query, field} as IQuery;
+}
+
+/**
+ * 词法分析：括号、短语（"..." 或 "..."~N）、带 +/- 前缀的词，以及可选的 字段名: 限定
+ */
+function tokenizeQuery(text: string, fields: ReadonlySet<string>): IQueryToken[] {
+	const tokens: IQueryToken[] = [];
+	let i = 0;
+
+	while (i < text.length) {
+		const c = text[i];
+		if (isSpace(c)) {
+			i++;
+			continue;
+		}
+		if (c === ')') {
+			tokens.push({type: 'close', text: c, start: i, end: i + 1});
+			i++;
+			continue;
+		}
+
+		// 前缀只在词的开头生效，如 re-added 中的 - 不是运算符
+		let prefix: '+' | '-' | undefined;
+		let j = i;
+		if ((c === '+' || c === '-') && isOperand(text[j + 1])) {
+			prefix = c;
+			j++;
+		}
+
+		// 只有已知的字段名才作为字段限定，避免误解析 http://... 之类的文本
+		let field: string | undefined;
+		const fieldMatch = fields.size > 0 ? /^([^\s:()"]+):(?=[^\s)])/.exec(text.slice(j)) : null;
+		if (fieldMatch && fields.has(fieldMatch[1])) {
+			field = fieldMatch[1];
+			j += fieldMatch[0].length;
+		}
+
+		if (text[j] === '(') {
+			tokens.push({type: 'open', text: '(', start: i, end: j + 1, prefix, field});
+			i = j + 1;
+			continue;
+		}
+
+		if (text[j] === '"') {
+			const close = text.indexOf('"', j + 1);
+			if (close > j) {
+				let end = close + 1;
+				let slop: number | undefined;
+				const match = /^~(\d+)/.exec(text.slice(end));
+				if (match) {
+					slop = Number(match[1]);
+					end += match[0].length;
+				}
+				tokens.push({type: 'phrase', text: text.slice(j + 1, close), start: i, end, slop, prefix, field});
+				i = end;
+				continue;
+			}
+		}
+
+		let end = j;
+		while (end < text.length && !isSpace(text[end]) && text[end] !== '(' && text[end] !== ')') end++;
+		if (end === j) end++;
+		tokens.push({type: 'word', text: text.slice(j, end), start: i, end, prefix, field});
+		i = end;
+	}
+	return tokens;
+}
+
+/**
+ * 解析查询语法为结构化查询
+ * - 空格分隔的词之间为 OR 关系（与普通查询一致）
+ * - +word 必须匹配，-word 不能匹配
+ * - AND / OR / NOT（大写），优先级 NOT > AND > OR
+ * - 括号分组，可带前缀，如 -(a b)
+ * - "new york" 精确短语，"fast car"~3 邻近查询
+ * - docu* 前缀查询，colo?r / doc*ion 通配符查询
+ * - title:invoice、title:"new york"、tags:(a OR b) 限定字段
+ * 相邻的普通词合并为一个词查询，没有任何语法的查询会得到包含原始文本的单个词查询
+ * @param text 查询文本
+ * @param fields 可在查询中限定的字段名，未提供时不解析字段限定
+ * @returns 结构化查询，查询为空时返回 null
+ */
+export function parseQuery(text: string, fields: Iterable<string> = []): IQuery | null {
+	const tokens = tokenizeQuery(text, new Set(fields));
+	let pos = 0;
+
+	const isKeyword = (keyword: string) => {
+		const token = tokens[pos];
+		return token?.type === 'word' && !token.prefix && token.text === keyword;
+	};
+
+	// 合并相邻的普通词，保留原始文本（包括其中的空白）交给分词器
+	const combine = (clauses: IClause[]): IQuery | null => {
+		const merged: IClause[] = [];
+		for (const clause of clauses) {
+			const last = merged[merged.length - 1];
+			if (last && last.wordIndex !== undefined && clause.wordIndex === last.wordIndex + 1) {
+				last.wordIndex = clause.wordIndex;
+				last.end = clause.end;
+				last.query = {term: text.slice(last.start, last.end)};
+			} else {
+				merged.push({...clause});
+			}
+		}
+
+		if (merged.length === 0) return null;
+		if (merged.length === 1 && merged[0].occur === 'should') return merged[0].query;
+		const query: IBooleanQuery = {};
+		for (const {query: clause, occur} of merged) {
+			(query[occur] ||= []).push(clause);
+		}
+		return query;
+	};
+
+	// unary := NOT unary | [+-] (group | phrase | word)
+	const parseUnary = (): IClause | null => {
+		const token = tokens[pos];
+		if (!token || token.type === 'close') return null;
+		if (isKeyword('NOT')) {
+			pos++;
+			const next = parseUnary();
+			return next ? {query: next.query, occur: 'mustNot'} : null;
+		}
+
+		const index = pos++;
+		const occur: Occur = token.prefix === '+' ? 'must' : token.prefix === '-' ? 'mustNot' : 'should';
+		if (token.type === 'open') {
+			const query = parseOr();
+			if (tokens[pos]?.type === 'close') pos++;
+			return query ? {query: withField(query, token.field), occur} : null;
+		}
+		if (token.type === 'phrase') {
+			if (!token.text.trim()) return null;
+			const query: IPhraseQuery = {phrase: token.text};
+			if (token.field) query.field = token.field;
+			if (token.slop !== undefined) query.slop = token.slop;
+			return {query, occur};
+		}
+		const query = wordQuery(token.text);
+		if (!query) return null;
+		if (token.field) return {query: withField(query, token.field), occur};
+		if (occur === 'should' && 'term' in query) {
+			return {query, occur, wordIndex: index, start: token.start, end: token.end};
+		}
+		return {query, occur};
+	};
+
+	// and := unary (AND unary)*
+	const parseAnd = (): IClause | null => {
+		const first = parseUnary();
+		if (!isKeyword('AND')) return first;
+
+		const clauses: IClause[] = first ? [first] : [];
+		while (isKeyword('AND')) {
+			pos++;
+			const next = parseUnary();
+			if (next) clauses.push(next);
+		}
+		// AND 连接的普通子句都必须匹配
+		const query = combine(clauses.map(({query, occur}) => ({query, occur: occur === 'should' ? 'must' : occur})));
+		return query ? {query, occur: 'should'} : null;
+	};
+
+	// or := and ((OR)? and)*
+	const parseOr = (): IQuery | null => {
+		const clauses: IClause[] = [];
+		while (pos < tokens.length && tokens[pos].type !== 'close') {
+			if (isKeyword('OR') || isKeyword('AND')) {
+				pos++;
+				continue;
+			}
+			const clause = parseAnd();
+			if (clause) clauses.push(clause);
+		}
+		return combine(clauses);
+	};
+
+	const clauses: IClause[] = [];
+	while (pos < tokens.length) {
+		const query = parseOr();
+		if (query) clauses.push({query, occur: 'should'});
+		// 跳过多余的右括号
+		if (tokens[pos]?.type === 'close') pos++;
+	}
+	return clauses.length <= 1 ? (clauses[0]?.query ?? null) : {should: clauses.map(c => c.query)};
+}
+
+/**
+ * 判断各词在文档中的位置是否满足短语条件
+ * @param positions 按短语中词的顺序排列的位置列表
+ * @param slop 未设置时要求按顺序紧邻出现；设置时允许各词偏离其在短语中的位置，
+ * 偏离量（各词的位置减去相对序号后，最大值与最小值之差）不超过 slop，顺序颠倒同样计入偏离量，如两个词互换需要 slop 为 2
+ * @param offsets 各词在短语中的相对序号，默认依次为 0, 1, 2...
+ */
+export function matchPhrase(positions: number[][], slop?: number, offsets: number[] = positions.map((_, i) => i)): boolean {
+	if (positions.length === 0 || positions.some(list => list.length === 0)) return false;
+
+	if (slop === undefined) {
+		const sets = positions.map(list => new Set(list));
+		return positions[0].some(start => sets.every((set, i) => set.has(start + offsets[i])));
+	}
+
+	// 位置减去相对序号后合并，用滑动窗口求覆盖全部词的最小跨度
+	const events: [number, number][] = [];
+	positions.forEach((list, term) => list.forEach(pos => events.push([pos - offsets[term], term])));
+	events.sort((a, b) => a[0] - b[0]);
+
+	const counts = new Array<number>(positions.length).fill(0);
+	let covered = 0;
+	let left = 0;
+	for (let right = 0; right < events.length; right++) {
+		if (counts[events[right][1]]++ === 0) covered++;
+		while (covered === positions.length) {
+			if (events[right][0] - events[left][0] <= slop) return true;
+			if (--counts[events[left][1]] === 0) covered--;
+			left++;
+		}
+	}
+	return false;
+}
@@ -0,0 +1,23 @@
+import {Scorer} from '../type';
+
+/**
+ * 经典评分：每个命中词得分 1 + 词长 * 0.1
+ */
+export const classicScorer: Scorer = term => 1 + (term.length * 0.1);
+
+/**
+ * 创建 BM25 评分函数
+ * - idf = ln(1 + (N - df + 0.5) / (df + 0.5))
+ * - tf 部分 = tf * (k1 + 1) / (tf + k1 * (1 - b + b * dl / avgdl))
+ * @param k1 词频饱和参数，默认为1.2
+ * @param b 长度归一化参数，默认为0.75
+ * @param charWeight 单字符词（字索引）得分的权重，默认为1
+ */
+export function createBm25Scorer(k1: number = 1.2, b: number = 0.75, charWeight: number = 1): Scorer {
+	return (_term, {type, docFrequency, docCount, avgDocLength}, {frequency, docLength}) => {
+		const n = Math.max(docCount, docFrequency);
+		const idf = Math.log(1 + (n - docFrequency + 0.5) / (docFrequency + 0.5));
+		const weight = type === 'char' ? charWeight : 1;
+		return weight * idf * frequency * (k1 + 1) / (frequency + k1 * (1 - b + b * docLength / avgDocLength));
+	};
+}
@@ -1,41 +1,254 @@
 import {MetaManager} from './MetaManager';
+import {DocumentStore} from './DocumentStore';
+import {DocumentIdMap} from './DocumentIdMap';
+import {AttributeStore} from './AttributeStore';
+import {selectTopK} from './selectTopK';
+import {buildSnippets, locateTokens} from './Highlighter';
+import {NormalizedToken, normalizeTokens} from './normalizeTokens';
 import {IntermediateCache} from './IntermediateCache';
 import {IndexSegment} from './IndexSegment';
 import {IndexSegment64} from './IndexSegment64';
 import {
+	DocumentId,
 	IDocument,
 	IDocumentBase,
+	IndexableDocument,
+	IDocumentVersion,
 	IndexType,
 	IResult,
+	IHighlight,
+	IHighlightOptions,
+	IHighlightMatch,
+	ISearchResponse,
+	ISearchOptions,
+	SortOption,
 	ISearchEngine,
 	ISearchEngineOption,
 	ISearchEngineStatus,
 	IStorage,
 	ITokenizedDoc,
+	ISpellCorrection,
+	ISpellSuggestion,
+	ITermSuggestion,
+	ICompactResult,
+	IExplanation,
+	IFieldExplanation,
+	ITermExplanation,
+	ISegmentMeta,
 	IHashAlgorithm32,
 	IHashAlgorithm64,
-	IIndexSegment
+	IIndexSegment,
+	IQuery,
+	ITermQuery,
+	IPhraseQuery,
+	IPrefixQuery,
+	IWildcardQuery,
+	IBooleanQuery,
+	IPosting,
+	Scorer,
+	TokenFilter
 } from '../type';
 import {Murmur3_32, Murmur3_64} from './hash/Murmur3';
 import {defaultTokenize} from "./defaultTokenize";
+import {createNgramTokenizer} from "./ngramTokenize";
+import {matchPhrase, parseQuery} from './QueryParser';
+import {PostingPayload} from './PostingPayload';
+import {classicScorer, createBm25Scorer} from './Scorer';
+import {TermTable} from './TermTable';
+import {SynonymMap} from './SynonymMap';
+
+interface IDocMatch {
+	score: number;
+	/**
+	 * 命中词及其得分贡献
+	 */
+	terms: Map<string, number>;
+	/**
+	 * 命中词的得分明细，仅在查询上下文的 explain 为 true 时记录
+	 */
+	explanations?: ITermExplanation[];
+}
+
+/**
+ * 累加命中词的得分贡献
+ */
+function addTermScore(match: IDocMatch, term: string, score: number): void {
+	match.score += score;
+	match.terms.set(term, (match.terms.get(term) ?? 0) + score);
+}
+
+/**
+ * 将倒排记录按字段拆分，位置按字段在文档中的顺序切分
+ * 没有字段信息的倒排记录全部属于 text 字段（0 号字段）
+ * @param field 限定的字段ID，未设置时返回所有字段
+ */
+function splitFields(posting: IPosting, field?: number): IFieldPosting[] {
+	const frequency = posting.frequency ?? posting.positions?.length ?? 1;
+	if (!posting.fields) {
+		return field === undefined || field === 0 ? [{field: 0, frequency, positions: posting.positions}] : [];
+	}
+	const result: IFieldPosting[] = [];
+	let offset = 0;
+	for (const [id, count] of posting.fields) {
+		if (field === undefined || id === field) {
+			result.push({field: id, frequency: count, positions: posting.positions?.slice(offset, offset + count)});
+		}
+		offset += count;
+	}
+	return result;
+}
+
+/**
+ * 将匹配信息转换为搜索结果
+ */
+function toResult<TId extends DocumentId>(id: TId, match: IDocMatch): IResult<TId> {
+	return {
+		id,
+		score: match.score,
+		tokens: Array.from(match.terms.keys()),
+		termScores: Object.fromEntries(match.terms)
+	};
+}
+
+/**
+ * 词所在的索引类型：多个字符的词在词索引中，单个字符在字索引中
+ * 按码点计数，扩展区汉字等占两个 UTF-16 码元的字符仍是单个字符
+ */
+function indexTypeOf(term: string): IndexType {
+	return term.length > 2 || (term.length === 2 && term.codePointAt(0)! <= 0xFFFF) ? 'word' : 'char';
+}
+
+/**
+ * 将 source 的得分与命中词合并到 target
+ */
+function mergeMatch(target: IDocMatch, source: IDocMatch): IDocMatch {
+	source.terms.forEach((score, term) => addTermScore(target, term, score));
+	if (source.explanations) (target.explanations ??= []).push(...source.explanations);
+	return target;
+}
+
+/**
+ * 拼写纠正组合的排序：总编辑距离小的在前，相同时替换词文档数多的在前
+ */
+function compareCorrections(a: ISpellCorrection[], b: ISpellCorrection[]): number {
+	const sum = (corrections: ISpellCorrection[], key: 'distance' | 'frequency') =>
+		corrections.reduce((total, c) => total + c[key], 0);
+	return sum(a, 'distance') - sum(b, 'distance') || sum(b, 'frequency') - sum(a, 'frequency');
+}
+
+/**
+ * 排序键中的值，null 表示缺少该属性
+ */
+type SortValue = number | string | null;
+
+/**
+ * 搜索结果的排序方式
+ */
+interface IResultOrder {
+	/**
+	 * 排序键的长度（排序条件数 + 文档ID）
+	 */
+	length: number;
+	/**
+	 * 排序条件的签名，写入游标，用于拒绝其他排序条件生成的游标
+	 */
+	signature: string;
+	key(id: number): SortValue[];
+	compare(a: SortValue[], b: SortValue[]): number;
+}
+
+/**
+ * 将排序条件签名与排序键编码为不透明的游标字符串
+ */
+function encodeCursor(order: IResultOrder, key: SortValue[]): string {
+	const bytes = new TextEncoder().encode(JSON.stringify({sort: order.signature, key}));
+	let binary = '';
+	for (const byte of bytes) binary += String.fromCharCode(byte);
+	return btoa(binary);
+}
+
+/**
+ * 解析游标，排序条件与生成游标时不一致或游标格式错误时抛出错误
+ */
+function decodeCursor(cursor: string, order: IResultOrder): SortValue[] {
+	let value: { sort?: unknown, key?: unknown } | null;
+	try {
+		value = JSON.parse(new TextDecoder().decode(Uint8Array.from(atob(cursor), c => c.charCodeAt(0))));
+	} catch {
+		value = null;
+	}
+	const key = value?.key;
+	if (value?.sort !== order.signature || !Array.isArray(key) || key.length !== order.length || typeof key[order.length - 1] !== 'number') {
+		throw new Error("Invalid searchAfter cursor.");
+	}
+	return key;
+}
+
+/**
+ * 查询上下文
+ */
+interface IQueryContext {
+	/**
+	 * 原始查询对象，分词时作为上下文传给搜索分词器
+	 */
+	queryDoc: IDocumentBase;
+	fuzzy: number;
+	/**
+	 * 满足过滤条件的文档ID，未设置时不过滤
+	 */
+	filter?: ReadonlySet<number>;
+	/**
+	 * 是否记录得分明细
+	 */
+	explain?: boolean;
+}
+
+/**
+ * 倒排记录在某个字段中的部分
+ */
+interface IFieldPosting {
+	field: number;
+	frequency: number;
+	positions?: number[];
+}
+
+/**
+ * 语料统计
+ */
+interface ICorpusStats {
+	docCount: number;
+	avgDocLength: number;
+}
 
 const WORD_CACHE_FILE = 'word_cache.bin';
+// 前缀、通配符与模糊查询最多展开的词数，避免过短的前缀匹配整个词典
+const MAX_TERM_EXPANSIONS = 1000;
+// 相似文档查询最多使用的源文档词数
+const MAX_SIMILAR_TERMS = 25;
 const CHAR_CACHE_FILE = 'char_cache.bin';
+// 多字段文档中相邻字段（及数组字段的相邻元素）之间的位置间隔，避免短语跨字段匹配
+const FIELD_POSITION_GAP = 100;
 
 /**
  * 核心搜索引擎类 (多实例支持)
+ * @typeParam TId 文档ID的类型，需与 idType 配置一致
  */
-export class SearchEngine implements ISearchEngine {
+export class SearchEngine<TId extends DocumentId = number> implements ISearchEngine<TId> {
 
 	#storage: IStorage;
 	#meta: MetaManager;
 	#cache: IntermediateCache;
+	#docStore: DocumentStore;
+	#ids: DocumentIdMap;
+	#attributes: AttributeStore;
 	#segments: Map<string, IIndexSegment>;
 	#initialized: boolean = false;
 	#config: ISearchEngineOption;
 	#isHash64Bit: boolean = true;
 	#hashAlgorithm32?: IHashAlgorithm32;
 	#hashAlgorithm64?: IHashAlgorithm64;
+	#scorer: Scorer;
+	#synonyms?: SynonymMap;
 
 	// 批处理状态
 	#inBatch: boolean = false;
@@ -47,13 +260,23 @@ export class SearchEngine implements ISearchEngine {
 			charSegmentTokenThreshold: 500000,
 			minWordTokenSave: 0,
 			minCharTokenSave: 0,
-			indexingTokenizer: config.indexingTokenizer || defaultTokenize,
+			ranking: 'bm25',
+			bm25K1: 1.2,
+			bm25B: 0.75,
+			charWeight: 0.5,
+			synonymWeight: 0.8,
+			indexingTokenizer: config.indexingTokenizer || (config.tokenizer && config.tokenizer !== 'segmenter'
+				? createNgramTokenizer(config.tokenizer === 'ngram' ? {} : config.tokenizer)
+				: defaultTokenize),
 			...config
 		};
 
 		// 处理哈希算法配置
 		this.#processHashAlgorithmConfig();
 
+		this.#scorer = this.#config.scorer
+			?? (this.#config.ranking === 'classic' ? classicScorer : createBm25Scorer(this.#config.bm25K1, this.#config.bm25B, this.#config.charWeight));
+
 		// 验证配置关系
 		if ((this.#config.minWordTokenSave || 0) >= (this.#config.wordSegmentTokenThreshold || 100000)) {
 			throw new Error("minWordTokenSave must be less than wordSegmentTokenThreshold");
@@ -67,6 +290,9 @@ export class SearchEngine implements ISearchEngine {
 		// 依赖注入
 		this.#meta = new MetaManager(this.#storage);
 		this.#cache = new IntermediateCache(this.#storage);
+		this.#docStore = new DocumentStore(this.#storage);
+		this.#ids = new DocumentIdMap(this.#storage, this.#config.idType);
+		this.#attributes = new AttributeStore(this.#storage, this.#config.filterableAttributes ?? {});
 		this.#segments = new Map();
 	}
 
@@ -122,10 +348,12 @@ export class SearchEngine implements ISearchEngine {
 		}
 
 		this.#pendingTokenCounts = {word: 0, char: 0};
+		await this.#autoMergeSegments('word');
+		await this.#autoMergeSegments('char');
 		await this.#meta.save();
 	}
 
-	async addDocument(doc: IDocument): Promise<void> {
+	async addDocument(doc: IndexableDocument<TId>): Promise<void> {
 		return this.addDocuments([doc]);
 	}
 
@@ -133,7 +361,7 @@ export class SearchEngine implements ISearchEngine {
 	 * 添加单个文档，如果文档ID已存在则跳过
 	 * 用于在批量添加中途出错后的恢复添加行为，也可直接用于单个文档添加
 	 */
-	async addDocumentIfMissing(doc: IDocument): Promise<void> {
+	async addDocumentIfMissing(doc: IndexableDocument<TId>): Promise<void> {
 		return this.addDocumentsIfMissing([doc]);
 	}
 
@@ -141,246 +369,471 @@ export class SearchEngine implements ISearchEngine {
 	 * 添加多个文档，跳过已存在的文档ID
 	 * 用于在批量添加中途出错后的恢复添加行为，也可直接用于批量添加
 	 */
-	async addDocumentsIfMissing(docs: IDocument[]): Promise<void> {
+	async addDocumentsIfMissing(docs: IndexableDocument<TId>[]): Promise<void> {
 		if (!this.#initialized) await this.#init();
 		if (docs.length === 0) return;
 
 		const deletedIds = this.#meta.getDeletedIds();
-		const batchWordDocs: ITokenizedDoc[] = [];
-		const batchCharDocs: ITokenizedDoc[] = [];
-		const newDocs: IDocument[] = [];
-
-		// 1. 分词与分类，跳过已存在或已删除的文档
-		for (const doc of docs) {
-			// 检查文档ID是否已被删除
-			if (deletedIds.has(doc.id)) {
-				continue;
-			}
-			// 检查文档ID是否已存在
-			if (this.#meta.isAdded(doc.id)) {
-				continue;
-			}
-			const rawTokens = this.#getIndexingTokens(doc);
-			const wordTokens: string[] = [];
-			const charTokens: string[] = [];
-
-			for (const t of rawTokens) {
-				if (t.length > 1) {
-					wordTokens.push(t);
-				} else if (t.length === 1) {
-					charTokens.push(t);
-				}
-			}
 
-			if (wordTokens.length > 0) batchWordDocs.push({id: doc.id, tokens: wordTokens});
-			if (charTokens.length > 0) batchCharDocs.push({id: doc.id, tokens: charTokens});
-			newDocs.push(doc);
-		}
+		// 跳过已存在或已删除的文档
+		const newDocs = docs.filter(doc => {
+			const id = this.#ids.find(doc.id);
+			return id === undefined || (!deletedIds.has(id) && !this.#meta.isAdded(id));
+		});
 
 		// 如果没有新文档需要添加，直接返回
 		if (newDocs.length === 0) return;
 
-		// 2. 写入 Cache (必须立即持久化以防丢失)
-		let addedWordTokens = 0;
-		let addedCharTokens = 0;
-
-		if (batchWordDocs.length > 0) {
-			await this.#cache.appendBatch(WORD_CACHE_FILE, batchWordDocs);
-			for (const d of batchWordDocs) addedWordTokens += d.tokens.length;
-		}
-
-		if (batchCharDocs.length > 0) {
-			await this.#cache.appendBatch(CHAR_CACHE_FILE, batchCharDocs);
-			for (const d of batchCharDocs) addedCharTokens += d.tokens.length;
-		}
-
-		// 更新已添加ID集合
-		for (const doc of newDocs) {
-			this.#meta.addAddedId(doc.id);
-		}
-
-		// 3. 处理逻辑分支
-		if (this.#inBatch) {
-			// 批处理模式：累加计数，暂不处理 Segment
-			this.#pendingTokenCounts.word += addedWordTokens;
-			this.#pendingTokenCounts.char += addedCharTokens;
-		} else {
-			// 实时模式：立即处理并保存
-			if (addedWordTokens > 0) await this.#processSegmentLogic('word', addedWordTokens);
-			if (addedCharTokens > 0) await this.#processSegmentLogic('char', addedCharTokens);
-			await this.#meta.save();
-		}
+		await this.#writeDocuments(newDocs);
 	}
 
-	async addDocuments(docs: IDocument[]): Promise<void> {
+	async addDocuments(docs: IndexableDocument<TId>[]): Promise<void> {
 		if (!this.#initialized) await this.#init();
 		if (docs.length === 0) return;
 
 		const deletedIds = this.#meta.getDeletedIds();
-		const batchWordDocs: ITokenizedDoc[] = [];
-		const batchCharDocs: ITokenizedDoc[] = [];
 
-		// 1. 分词与分类
 		for (const doc of docs) {
+			const id = this.#ids.find(doc.id);
+			if (id === undefined) continue;
 			// 检查文档ID是否已被删除
-			if (deletedIds.has(doc.id)) {
+			if (deletedIds.has(id)) {
 				throw new Error(`Document ID ${doc.id} has been deleted and cannot be re-added.`);
 			}
 			// 检查文档ID是否已存在
-			if (this.#meta.isAdded(doc.id)) {
+			if (this.#meta.isAdded(id)) {
 				throw new Error(`Document ID ${doc.id} already exists.`);
 			}
-			const rawTokens = this.#getIndexingTokens(doc);
-			const wordTokens: string[] = [];
-			const charTokens: string[] = [];
+		}
 
-			for (const t of rawTokens) {
-				if (t.length > 1) {
-					wordTokens.push(t);
-				} else if (t.length === 1) {
-					charTokens.push(t);
-				}
-			}
+		await this.#writeDocuments(docs);
+	}
 
-			if (wordTokens.length > 0) batchWordDocs.push({id: doc.id, tokens: wordTokens});
-			if (charTokens.length > 0) batchCharDocs.push({id: doc.id, tokens: charTokens});
-		}
+	/**
+	 * 更新单个文档，文档不存在时直接添加
+	 * 已删除的文档ID也可以通过此方法重新添加
+	 */
+	async updateDocument(doc: IndexableDocument<TId>): Promise<void> {
+		return this.upsertDocuments([doc]);
+	}
 
-		// 2. 写入 Cache (必须立即持久化以防丢失)
-		let addedWordTokens = 0;
-		let addedCharTokens = 0;
+	/**
+	 * 添加或更新多个文档
+	 * 已存在（包括已删除）的文档会写入新版本，搜索时只匹配最新版本的 token
+	 * 同一批次中重复的ID只保留最后一个
+	 */
+	async upsertDocuments(docs: IndexableDocument<TId>[]): Promise<void> {
+		if (!this.#initialized) await this.#init();
+		if (docs.length === 0) return;
 
-		if (batchWordDocs.length > 0) {
-			await this.#cache.appendBatch(WORD_CACHE_FILE, batchWordDocs);
-			for (const d of batchWordDocs) addedWordTokens += d.tokens.length;
+		const latestDocs = new Map<number, IndexableDocument<TId>>();
+		for (const doc of docs) {
+			const id = this.#ids.resolve(doc.id);
+			latestDocs.delete(id);
+			latestDocs.set(id, doc);
 		}
 
-		if (batchCharDocs.length > 0) {
-			await this.#cache.appendBatch(CHAR_CACHE_FILE, batchCharDocs);
-			for (const d of batchCharDocs) addedCharTokens += d.tokens.length;
+		const updatedIds = new Set<number>();
+		for (const id of latestDocs.keys()) {
+			if (this.#meta.hasDocument(id)) updatedIds.add(id);
 		}
 
-		// 更新已添加ID集合
-		for (const doc of docs) {
-			this.#meta.addAddedId(doc.id);
-		}
+		await this.#writeDocuments(Array.from(latestDocs.values()), updatedIds);
+	}
 
-		// 3. 处理逻辑分支
-		if (this.#inBatch) {
-			// 批处理模式：累加计数，暂不处理 Segment
-			this.#pendingTokenCounts.word += addedWordTokens;
-			this.#pendingTokenCounts.char += addedCharTokens;
-		} else {
-			// 实时模式：立即处理并保存
-			if (addedWordTokens > 0) await this.#processSegmentLogic('word', addedWordTokens);
-			if (addedCharTokens > 0) await this.#processSegmentLogic('char', addedCharTokens);
-			await this.#meta.save();
+	/**
+	 * 搜索文档
+	 * @param query 查询文本（支持查询语法）、带上下文的查询对象，或结构化查询
+	 * @param limit 返回结果的最大数量
+	 */
+	async search(query: IDocumentBase | IQuery | string, limit?: number): Promise<IResult<TId>[]>;
+	/**
+	 * 按搜索选项搜索文档
+	 * @param query 查询文本（支持查询语法）、带上下文的查询对象，或结构化查询
+	 * @param options 搜索选项
+	 */
+	async search(query: IDocumentBase | IQuery | string, options: ISearchOptions): Promise<ISearchResponse<TId>>;
+	async search(query: IDocumentBase | IQuery | string, options?: number | ISearchOptions): Promise<IResult<TId>[] | ISearchResponse<TId>> {
+		if (!this.#initialized) await this.#init();
+		const {
+			limit, offset = 0, searchAfter, fuzzy = 0, includeDocument = false, filter, facets, sort
+		} = typeof options === 'object' ? options : {limit: options};
+
+		const {queryDoc, parsed} = this.#parseSearchQuery(query);
+
+		await this.#loadSegments();
+		// 过滤条件先转换为文档ID集合，匹配时跳过不满足条件的文档，不参与评分
+		const filterIds = filter && Object.keys(filter).length > 0 ? await this.#attributes.filter(filter) : undefined;
+		const docMatches = parsed ? this.#evaluate(parsed, {queryDoc, fuzzy, filter: filterIds}) : new Map<number, IDocMatch>();
+
+		// 按排序键选出当前页，只为返回的结果生成 IResult
+		const order = await this.#getResultOrder(docMatches, sort?.length ? sort : ['_score']);
+		const after = searchAfter === undefined ? undefined : decodeCursor(searchAfter, order);
+		let remaining = 0;
+		const candidates = function* () {
+			for (const id of docMatches.keys()) {
+				const key = order.key(id);
+				if (after && order.compare(key, after) <= 0) continue;
+				remaining++;
+				yield key;
+			}
+		};
+		const start = Math.max(0, Math.floor(offset));
+		const count = typeof limit === 'number' && limit > 0 ? start + limit : Infinity;
+		const keys = selectTopK(candidates(), count, order.compare).slice(start);
+
+		const ids = keys.map(key => key[key.length - 1] as number);
+		const hits = ids.map(id => toResult(this.#ids.external(id) as TId, docMatches.get(id)!));
+		if (includeDocument) {
+			const docs = await this.#docStore.read(ids);
+			hits.forEach((hit, i) => {
+				const doc = docs.get(ids[i]);
+				if (doc) hit.document = this.#toExternalDoc(doc);
+			});
 		}
+		if (typeof options !== 'object') return hits;
+
+		const response: ISearchResponse<TId> = {hits, total: docMatches.size};
+		// 当前页之后还有结果时返回游标
+		if (keys.length > 0 && remaining > start + keys.length) response.cursor = encodeCursor(order, keys[keys.length - 1]);
+		if (facets?.length) response.facets = await this.#attributes.facets(docMatches.keys(), facets);
+		return response;
+	}
+
+	/**
+	 * 解释文档在查询中的得分：列出每个命中词的类型、所在索引段、文档频率、权重与各字段得分
+	 * @param query 查询文本（支持查询语法）、带上下文的查询对象，或结构化查询
+	 * @param id 文档ID
+	 * @param options 与搜索时一致的 fuzzy 与 filter
+	 * @returns 得分解释，文档不匹配查询或过滤条件时返回 null
+	 */
+	async explain(query: IDocumentBase | IQuery | string, id: TId, options: Pick<ISearchOptions, 'fuzzy' | 'filter'> = {}): Promise<IExplanation<TId> | null> {
+		if (!this.#initialized) await this.#init();
+		const {fuzzy = 0, filter} = options;
+		const {queryDoc, parsed} = this.#parseSearchQuery(query);
+		const internalId = this.#ids.find(id);
+		if (!parsed || internalId === undefined) return null;
+
+		await this.#loadSegments();
+		if (filter && Object.keys(filter).length > 0 && !(await this.#attributes.filter(filter)).has(internalId)) return null;
+		// 只对该文档评分并记录明细，文档频率等统计仍按全部文档计算
+		const match = this.#evaluate(parsed, {queryDoc, fuzzy, filter: new Set([internalId]), explain: true}).get(internalId);
+		return match ? {id, score: match.score, terms: match.explanations ?? []} : null;
 	}
 
-	async search(query: IDocumentBase | string, limit?: number): Promise<IResult[]> {
+	/**
+	 * 查找与已有文档相似的文档
+	 * 从中间缓存读取源文档索引时的 token，按 tf-idf 选出最有区分度的词，以其权重组成查询，结果不包含源文档
+	 * @param id 源文档ID
+	 * @param limit 返回的最大数量，默认为10
+	 * @returns 相似文档，源文档不存在或已删除时返回空数组
+	 */
+	async similar(id: TId, limit: number = 10): Promise<IResult<TId>[]> {
 		if (!this.#initialized) await this.#init();
+		const internalId = this.#ids.find(id);
+		if (internalId === undefined || !this.#meta.isAdded(internalId) || this.#meta.getDeletedIds().has(internalId)) return [];
+		await this.#loadSegments();
+
+		// 没有词时（如只有单字符的文档）使用字索引的 token
+		let tokens = await this.#readCachedTokens(internalId, 'word');
+		if (tokens.length === 0) tokens = await this.#readCachedTokens(internalId, 'char');
+		const frequencies = new Map<string, number>();
+		for (const token of tokens) frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+
+		// 只出现在源文档中的词无法匹配其他文档，不参与查询
+		const {docCount} = this.#getCorpusStats();
+		const candidates: [string, number][] = [];
+		for (const [term, frequency] of frequencies) {
+			const docFrequency = this.#countDocuments(term);
+			if (docFrequency < 2) continue;
+			candidates.push([term, frequency * Math.log(1 + (docCount - docFrequency + 0.5) / (docFrequency + 0.5))]);
+		}
+		const terms = selectTopK(candidates, MAX_SIMILAR_TERMS, (a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1));
+		if (terms.length === 0) return [];
+
+		const weights = new Map(terms.map(([term, weight]) => [term, weight / terms[0][1]]));
+		const docMatches = this.#matchTerms(Array.from(weights.keys()), {queryDoc: {text: ''}, fuzzy: 0}, undefined, weights);
+		docMatches.delete(internalId);
+
+		const order = await this.#getResultOrder(docMatches, ['_score']);
+		const keys = selectTopK(Array.from(docMatches.keys(), order.key), Math.max(0, limit), order.compare);
+		return keys.map(key => {
+			const hitId = key[key.length - 1] as number;
+			return toResult(this.#ids.external(hitId) as TId, docMatches.get(hitId)!);
+		});
+	}
 
-		// Convert string query to IDocumentBase
-		const queryDoc = (typeof query === 'string' ? {text: query} : query) as IDocumentBase;
-		const rawTokens = this.#getSearchTokens(queryDoc);
-		const wordTerms = rawTokens.filter(t => t.length > 1);
-		const charTerms = rawTokens.filter(t => t.length === 1);
+	/**
+	 * 查询补全：返回以 prefix 开头的词，按包含该词的文档数从多到少排列
+	 * 前缀按搜索分词器与分析器规范化，只统计未删除文档的最新版本
+	 * @param prefix 前缀
+	 * @param limit 返回的最大数量，默认为10
+	 */
+	async suggest(prefix: string, limit: number = 10): Promise<ITermSuggestion[]> {
+		if (!this.#initialized) await this.#init();
+		const normalized = this.#normalizeTerm(prefix.trim(), {queryDoc: {text: prefix}, fuzzy: 0});
+		if (!normalized) return [];
+		await this.#loadSegments();
+
+		const count = Math.max(0, limit);
+		if (count === 0) return [];
+
+		// 倒排记录数（含已删除文档与旧版本）是文档数的上界，只需读取字典项
+		const bounds = new Map<string, number>();
+		for (const meta of this.#meta.getSegments('word')) {
+			const segment = this.#segments.get(meta.filename);
+			if (!segment) continue;
+			for (const term of segment.listTerms(normalized)) {
+				bounds.set(term, (bounds.get(term) ?? 0) + segment.postingCount(term));
+			}
+		}
 
-		const deletedIds = this.#meta.getDeletedIds();
-		const docMatches = new Map<number, { score: number, tokens: Set<string> }>();
+		// 按上界从大到小精确统计，上界低于当前第 limit 个结果的文档数时，剩余的词都不会进入结果
+		const compare = (a: ITermSuggestion, b: ITermSuggestion) => b.frequency - a.frequency || (a.term < b.term ? -1 : a.term > b.term ? 1 : 0);
+		const candidates = Array.from(bounds, ([term, frequency]) => ({term, frequency})).sort(compare);
+		const suggestions: ITermSuggestion[] = [];
+		for (const {term, frequency: bound} of candidates) {
+			if (suggestions.length === count && bound < suggestions[count - 1].frequency) break;
+			const frequency = this.#countDocuments(term);
+			if (frequency === 0) continue;
+			suggestions.push({term, frequency});
+			suggestions.sort(compare);
+			if (suggestions.length > count) suggestions.pop();
+		}
+		return suggestions;
+	}
 
-		// 预加载所有需要的索引段
-		const segmentsToLoad = new Map<string, IIndexSegment>();
+	/**
+	 * 拼写纠正：为索引中不存在的查询词查找编辑距离相近的词，返回替换后的查询
+	 * 按总编辑距离从小到大、替换词的文档数从多到少排列，没有可纠正的词时返回空数组
+	 * @param query 查询文本
+	 * @param limit 返回的最大数量，默认为3
+	 */
+	async spellcheck(query: string, limit: number = 3): Promise<ISpellSuggestion[]> {
+		if (!this.#initialized) await this.#init();
+		if (limit <= 0) return [];
+		await this.#loadSegments();
+
+		const tokens = this.#getQueryTokens(query, {queryDoc: {text: query}, fuzzy: 0});
+		// 每个词的候选替换，按编辑距离、文档数排序
+		const candidates: {token: NormalizedToken, options: ISpellCorrection[]}[] = [];
+		for (const token of tokens) {
+			const term = token.term;
+			// 单字符词在字索引中，不做纠正
+			if (indexTypeOf(term) === 'char' || this.#countDocuments(term) > 0) continue;
+
+			const options: ISpellCorrection[] = [];
+			for (const [correction, distance] of this.#expandFuzzy(term, term.length > 4 ? 2 : 1)) {
+				if (distance === 0) continue;
+				const frequency = this.#countDocuments(correction);
+				if (frequency > 0) options.push({term, correction, distance, frequency});
+			}
+			if (options.length === 0) continue;
+			options.sort((a, b) => a.distance - b.distance || b.frequency - a.frequency || (a.correction < b.correction ? -1 : 1));
+			candidates.push({token, options: options.slice(0, limit)});
+		}
+		if (candidates.length === 0) return [];
+
+		// 逐词组合候选，只保留最好的 limit 个组合
+		let combinations: ISpellCorrection[][] = [[]];
+		for (const {options} of candidates) {
+			combinations = combinations
+				.flatMap(combination => options.map(option => [...combination, option]))
+				.sort(compareCorrections)
+				.slice(0, limit);
+		}
 
-		// 收集所有需要的索引段
-		const collectSegments = (type: IndexType) => {
-			const segmentsMeta = this.#meta.getSegments(type);
-			for (const meta of segmentsMeta) {
-				const filename = meta.filename;
-				if (!this.#segments.has(filename) && !segmentsToLoad.has(filename)) {
-					if (this.#isHash64Bit) {
-						segmentsToLoad.set(filename, new IndexSegment64(filename, this.#storage, this.#hashAlgorithm64!));
-					} else {
-						segmentsToLoad.set(filename, new IndexSegment(filename, this.#storage, this.#hashAlgorithm32!));
-					}
+		return combinations.map(corrections => {
+			// 有字符偏移时在原文中替换，否则用分词结果重新拼接
+			let text: string;
+			if (candidates.every(({token}) => token.start !== undefined && token.end !== undefined)) {
+				text = query;
+				for (let i = candidates.length - 1; i >= 0; i--) {
+					const {start, end} = candidates[i].token;
+					text = text.slice(0, start) + corrections[i].correction + text.slice(end);
 				}
+			} else {
+				const replaced = new Map(candidates.map(({token}, i) => [token, corrections[i].correction]));
+				text = tokens.map(token => replaced.get(token) ?? token.term).join(' ');
 			}
-		};
-
-		collectSegments('word');
-		collectSegments('char');
+			return {text, corrections};
+		});
+	}
 
-		// 批量加载索引段
-		await Promise.all(
-			Array.from(segmentsToLoad.entries()).map(([filename, segment]) => {
-				return segment.loadIndex().then(loaded => {
-					if (loaded) this.#segments.set(filename, segment);
-				});
-			})
-		);
+	/**
+	 * 读取存储的原始文档
+	 * 需要开启 storeDocuments，文档不存在、已删除或写入时未开启存储时返回 null
+	 * @param id 文档ID
+	 */
+	async getDocument(id: TId): Promise<IndexableDocument<TId> | null> {
+		if (!this.#initialized) await this.#init();
+		const internalId = this.#ids.find(id);
+		if (internalId === undefined || this.#meta.getDeletedIds().has(internalId)) return null;
+		const doc = (await this.#docStore.read([internalId])).get(internalId);
+		return doc ? this.#toExternalDoc(doc) : null;
+	}
 
-		const processTerms = async (type: IndexType, terms: string[]) => {
-			if (terms.length === 0) return;
-			const segmentsMeta = this.#meta.getSegments(type);
+	/**
+	 * 高亮搜索结果中的命中词，并选取包含命中词最多的片段
+	 * 使用索引时的分词器定位命中词，位置与实际匹配的 token 一致
+	 * @param hit 搜索结果，使用其中的文档ID与命中词
+	 * @param options 高亮选项，未提供 text 时读取存储的原始文档
+	 * @returns 高亮结果，没有可高亮的文本时返回 null
+	 */
+	async highlight(hit: Pick<IResult<TId>, 'id' | 'tokens'>, options: IHighlightOptions = {}): Promise<IHighlight | null> {
+		if (!this.#initialized) await this.#init();
+		const field = options.field ?? 'text';
 
-			for (const meta of segmentsMeta) {
-				const filename = meta.filename;
-				const segment = this.#segments.get(filename);
-				if (!segment) continue;
+		let tokenDoc: IDocument<TId>;
+		if (options.text !== undefined) {
+			tokenDoc = {id: hit.id, text: options.text};
+		} else {
+			const doc = await this.getDocument(hit.id);
+			if (!doc) return null;
+			const value = 'fields' in doc ? doc.fields[field] : field === 'text' ? doc.text : undefined;
+			if (value === undefined) return null;
+			// 普通文档直接将原文档传给分词器，与索引时一致
+			tokenDoc = 'fields' in doc ? {...doc, text: Array.isArray(value) ? value.join('\n') : value} : doc;
+		}
 
-				for (const term of terms) {
-					const hits = segment.search(term);
-					const termScore = 1 + (term.length * 0.1);
-
-					for (const id of hits) {
-						if (deletedIds.has(id)) continue;
-						if (!docMatches.has(id)) {
-							docMatches.set(id, {score: 0, tokens: new Set([term])});
-						} else {
-							const match = docMatches.get(id)!;
-							match.score += termScore;
-							match.tokens.add(term);
-						}
-					}
-				}
-			}
+		const tokens = this.#getFieldTokens(field, tokenDoc as IDocument);
+		const matched = new Set(hit.tokens);
+		// 分词器提供字符偏移时直接使用，否则在原文中查找 token；定位后再经过分析器与命中词比较
+		const located = tokens.every(t => t.start !== undefined && t.end !== undefined)
+			? tokens.map(t => ({token: t.term, start: t.start!, end: t.end!}))
+			: locateTokens(tokenDoc.text, tokens.map(t => t.term));
+		const matches: IHighlightMatch[] = [];
+		for (const match of located) {
+			const token = this.#analyzeTerm(match.token, this.#config.indexingAnalyzers);
+			if (token && matched.has(token)) matches.push({...match, token});
+		}
+		return {
+			text: tokenDoc.text,
+			matches,
+			snippets: buildSnippets(tokenDoc.text, matches, options)
 		};
+	}
 
-		await processTerms('word', wordTerms);
-		await processTerms('char', charTerms);
+	async removeDocument(id: TId): Promise<void> {
+		if (!this.#initialized) await this.#init();
+		// 未添加过的数字ID同样记录为已删除；使用映射时未添加过的ID没有内部ID，不为其分配序号
+		const internalId = this.#ids.mapped ? this.#ids.find(id) : this.#ids.resolve(id);
+		if (internalId === undefined) return;
+		this.#meta.addDeletedId(internalId);
+		this.#meta.removeAddedId(internalId);
+		await this.#meta.save();
+	}
 
-		// 转换结果并排序
-		const results: IResult[] = [];
-		docMatches.forEach((data, id) => {
-			results.push({
-				id,
-				score: data.score,
-				tokens: Array.from(data.tokens)
-			});
-		});
+	/**
+	 * 优化索引：合并相邻的索引段，使每种类型的段数不超过 maxSegments
+	 * 每次合并总 token 数最小的一对相邻段，使合并后的段大小尽量均衡
+	 * @param maxSegments 每种类型保留的最大段数，默认为1
+	 */
+	async optimize(maxSegments: number = 1): Promise<void> {
+		if (!this.#initialized) await this.#init();
+		if (this.#inBatch) {
+			throw new Error("Cannot optimize while a batch is in progress.");
+		}
+		const limit = Math.max(1, Math.floor(maxSegments));
 
-		// 优化排序：使用更高效的排序算法并限制结果数量
-		results.sort((a, b) => b.score - a.score);
+		for (const type of ['word', 'char'] as IndexType[]) {
+			const segments = this.#meta.getSegments(type);
+			if (segments.length <= limit) continue;
+
+			// 先在内存中确定分组，再逐组构建，避免重复重建
+			const groups = segments.map((seg, i) => ({from: i, to: i, tokenCount: seg.tokenCount}));
+			while (groups.length > limit) {
+				let best = 0;
+				for (let i = 1; i < groups.length - 1; i++) {
+					if (groups[i].tokenCount + groups[i + 1].tokenCount < groups[best].tokenCount + groups[best + 1].tokenCount) {
+						best = i;
+					}
+				}
+				groups.splice(best, 2, {
+					from: groups[best].from,
+					to: groups[best + 1].to,
+					tokenCount: groups[best].tokenCount + groups[best + 1].tokenCount
+				});
+			}
 
-		if (typeof limit === 'number' && limit > 0) {
-			return results.slice(0, limit);
+			// 从后往前合并，保证前面分组的下标仍然有效
+			for (let i = groups.length - 1; i >= 0; i--) {
+				await this.#mergeSegments(type, groups[i].from, groups[i].to);
+			}
 		}
 
-		return results;
+		await this.#meta.save();
 	}
 
-	async removeDocument(id: number): Promise<void> {
+	/**
+	 * 压缩索引
+	 * 从中间缓存和索引段中物理清除已删除文档及被更新覆盖的旧版本，
+	 * 完成后已删除的文档ID不再被记录，可以重新添加；索引段的划分保持不变，只移除不再包含文档的段
+	 * @returns 清除的文档数量与回收的字节数
+	 */
+	async compact(): Promise<ICompactResult> {
 		if (!this.#initialized) await this.#init();
-		this.#meta.addDeletedId(id);
-		this.#meta.removeAddedId(id);
+		if (this.#inBatch) {
+			throw new Error("Cannot compact while a batch is in progress.");
+		}
+
+		const sizeBefore = await this.#getStorageSize();
+		const deletedIds = this.#meta.getDeletedIds();
+		// 只统计写入过的文档，对未添加过的ID调用 removeDocument 不计入
+		let purgedDocuments = 0;
+		for (const id of deletedIds) {
+			if (this.#meta.getDocLength(id) !== undefined) purgedDocuments++;
+		}
+
+		// 索引段、中间缓存与文档存储都先写入新文件，保存元数据时切换，之后再删除旧文件，中途失败时旧索引仍然可用
+		const generation = this.#meta.getGeneration();
+		const oldSegments = [...this.#meta.getSegments('word'), ...this.#meta.getSegments('char')];
+		const docLengths = new Map<number, number>();
+		const versions = new Map<number, IDocumentVersion>();
+		const wordSegments = await this.#compactSegments('word', generation + 1, docLengths, versions);
+		const charSegments = await this.#compactSegments('char', generation + 1, docLengths, versions);
+		await this.#docStore.compact(id => !deletedIds.has(id), generation + 1);
+		await this.#attributes.compact(id => !deletedIds.has(id));
+
+		this.#meta.setSegments('word', wordSegments);
+		this.#meta.setSegments('char', charSegments);
+		this.#meta.setGeneration(generation + 1);
+		for (const id of deletedIds) {
+			this.#meta.removeDocLength(id);
+		}
+		for (const [id, length] of docLengths) {
+			this.#meta.setDocLength(id, length);
+		}
+		this.#meta.clearDeletedIds();
+		this.#meta.clearVersions();
+		for (const [id, version] of versions) {
+			this.#meta.setVersion(id, version);
+		}
 		await this.#meta.save();
+		this.#docStore.use(generation + 1);
+		for (const meta of oldSegments) {
+			await this.#removeSegmentFiles(meta.filename);
+		}
+		await this.#storage.remove(this.#cacheFile('word', generation));
+		await this.#storage.remove(this.#cacheFile('char', generation));
+		await this.#storage.remove(MetaManager.versionsFileOf(generation));
+		for (const filename of DocumentStore.filesOf(generation)) {
+			await this.#storage.remove(filename);
+		}
+
+		return {
+			purgedDocuments,
+			reclaimedBytes: Math.max(0, sizeBefore - await this.#getStorageSize())
+		};
 	}
 
 	async clearAll(): Promise<void> {
 		await this.#storage.clearAll();
 		this.#segments.clear();
 		this.#meta.reset();
+		this.#docStore.reset();
+		this.#ids.reset();
+		this.#attributes.reset();
 		this.#initialized = false;
 		this.#inBatch = false;
 		this.#pendingTokenCounts = {word: 0, char: 0};
@@ -392,8 +845,9 @@ export class SearchEngine implements ISearchEngine {
 			wordSegments: this.#meta.getSegments('word').length,
 			charSegments: this.#meta.getSegments('char').length,
 			deleted: this.#meta.getDeletedIds().size,
-			wordCacheSize: await this.#cache.getCurrentSize(WORD_CACHE_FILE),
-			charCacheSize: await this.#cache.getCurrentSize(CHAR_CACHE_FILE),
+			wordCacheSize: await this.#cache.getCurrentSize(this.#cacheFile('word')),
+			charCacheSize: await this.#cache.getCurrentSize(this.#cacheFile('char')),
+			documentStoreSize: await this.#docStore.getSize(),
 			inBatch: this.#inBatch
 		};
 	}
@@ -403,14 +857,18 @@ export class SearchEngine implements ISearchEngine {
 	 * @param id 文档ID
 	 * @returns 文档是否曾经添加过的布尔值
 	 */
-	async hasDocument(id: number): Promise<boolean> {
+	async hasDocument(id: TId): Promise<boolean> {
 		if (!this.#initialized) await this.#init();
-		return this.#meta.hasDocument(id);
+		const internalId = this.#ids.find(id);
+		return internalId !== undefined && this.#meta.hasDocument(internalId);
 	}
 
 	async #init() {
 		if (this.#initialized) return;
 		await this.#meta.load();
+		await this.#ids.load();
+		this.#docStore.use(this.#meta.getGeneration());
+		await this.#docStore.load();
 
 		const allSegments = [
 			...this.#meta.getSegments('word'),
@@ -420,11 +878,7 @@ export class SearchEngine implements ISearchEngine {
 		// 预加载所有相关的索引段并加载数据
 		for (const seg of allSegments) {
 			if (!this.#segments.has(seg.filename)) {
-				if (this.#isHash64Bit) {
-					this.#segments.set(seg.filename, new IndexSegment64(seg.filename, this.#storage, this.#hashAlgorithm64!));
-				} else {
-					this.#segments.set(seg.filename, new IndexSegment(seg.filename, this.#storage, this.#hashAlgorithm32!));
-				}
+				this.#segments.set(seg.filename, this.#createSegment(seg.filename));
 			}
 			// 确保索引段已加载数据
 			await this.#segments.get(seg.filename)!.loadIndex();
@@ -432,32 +886,772 @@ export class SearchEngine implements ISearchEngine {
 		this.#initialized = true;
 	}
 
-	#getIndexingTokens<T extends IDocument = IDocument>(doc: T): string[] {
-		return this.#config.indexingTokenizer!(doc);
+	/**
+	 * 按当前哈希位数创建索引段实例
+	 */
+	#createSegment(filename: string): IIndexSegment {
+		if (this.#isHash64Bit) {
+			return new IndexSegment64(filename, this.#storage, this.#hashAlgorithm64!);
+		}
+		return new IndexSegment(filename, this.#storage, this.#hashAlgorithm32!);
+	}
+
+	/**
+	 * 预加载所有尚未加载的索引段
+	 */
+	async #loadSegments() {
+		const segmentsToLoad = new Map<string, IIndexSegment>();
+
+		// 收集所有需要的索引段
+		const collectSegments = (type: IndexType) => {
+			const segmentsMeta = this.#meta.getSegments(type);
+			for (const meta of segmentsMeta) {
+				const filename = meta.filename;
+				if (!this.#segments.has(filename) && !segmentsToLoad.has(filename)) {
+					segmentsToLoad.set(filename, this.#createSegment(filename));
+				}
+			}
+		};
+
+		collectSegments('word');
+		collectSegments('char');
+
+		// 批量加载索引段
+		await Promise.all(
+			Array.from(segmentsToLoad.entries()).map(([filename, segment]) => {
+				return segment.loadIndex().then(loaded => {
+					if (loaded) this.#segments.set(filename, segment);
+				});
+			})
+		);
+	}
+
+	/**
+	 * 字符串与 IDocumentBase 按查询语法解析，其余为结构化查询
+	 */
+	#parseSearchQuery(query: IDocumentBase | IQuery | string): { queryDoc: IDocumentBase, parsed: IQuery | null } {
+		if (typeof query === 'string') {
+			return {queryDoc: {text: query}, parsed: parseQuery(query, this.#getQueryFields())};
+		}
+		if ('text' in query) {
+			return {queryDoc: query, parsed: parseQuery(query.text, this.#getQueryFields())};
+		}
+		return {queryDoc: {text: ''}, parsed: query};
+	}
+
+	/**
+	 * 根据排序条件生成结果的排序键与比较函数
+	 * 排序键依次为各条件的值（缺少属性时为 null，无论方向都排在最后），最后为文档ID，保证顺序唯一
+	 */
+	async #getResultOrder(docMatches: Map<number, IDocMatch>, sort: SortOption[]): Promise<IResultOrder> {
+		const getters: ((id: number) => SortValue)[] = [];
+		const directions: number[] = [];
+		const signature: string[] = [];
+		for (const option of sort) {
+			const {field, order = field === '_score' ? 'desc' : 'asc'} = typeof option === 'string' ? {field: option} : option;
+			directions.push(order === 'asc' ? 1 : -1);
+			signature.push(`${field}:${order}`);
+			if (field === '_score') {
+				getters.push(id => docMatches.get(id)!.score);
+			} else {
+				const keys = await this.#attributes.sortKeys(docMatches.keys(), field, order);
+				getters.push(id => keys.get(id) ?? null);
+			}
+		}
+
+		return {
+			length: getters.length + 1,
+			signature: signature.join(','),
+			key: id => [...getters.map(get => get(id)), id],
+			compare: (a, b) => {
+				for (let i = 0; i < directions.length; i++) {
+					const x = a[i], y = b[i];
+					if (x === y) continue;
+					if (x === null || y === null) return x === null ? 1 : -1;
+					return (x < y ? -1 : 1) * directions[i];
+				}
+				return (a[directions.length] as number) - (b[directions.length] as number);
+			}
+		};
+	}
+
+	/**
+	 * 计算结构化查询的匹配文档
+	 */
+	#evaluate(query: IQuery, context: IQueryContext): Map<number, IDocMatch> {
+		if ('term' in query) return this.#matchTerm(query, context);
+		if ('phrase' in query) return this.#matchPhrase(query, context);
+		if ('prefix' in query || 'wildcard' in query) return this.#matchPattern(query, context);
+		return this.#matchBoolean(query, context);
+	}
+
+	/**
+	 * 词查询：分词后任一 token 命中即匹配
+	 */
+	#matchTerm(query: ITermQuery, context: IQueryContext): Map<number, IDocMatch> {
+		const rawTokens = this.#getQueryTokens(query.term, context, query.field).map(t => t.term);
+		const terms = [...rawTokens.filter(t => indexTypeOf(t) === 'word'), ...rawTokens.filter(t => t && indexTypeOf(t) === 'char')];
+		const fuzzy = query.fuzzy ?? context.fuzzy;
+		let docMatches: Map<number, IDocMatch>;
+		if (!fuzzy) {
+			docMatches = this.#matchTerms(terms, context, query.field);
+		} else {
+			// 模糊匹配：每个词扩展为词典中的相近词，得分按编辑距离降低，同一个词取最高权重
+			const weights = new Map<string, number>();
+			for (const term of terms) {
+				for (const [expanded, distance] of this.#expandFuzzy(term, fuzzy)) {
+					weights.set(expanded, Math.max(weights.get(expanded) ?? 0, 1 / (1 + distance)));
+				}
+			}
+			docMatches = this.#matchTerms(Array.from(weights.keys()), context, query.field, weights);
+		}
+		return this.#matchSynonyms(rawTokens, query.field, context, docMatches);
+	}
+
+	/**
+	 * 同义词扩展：查询词序列中出现同义词时，额外查询其余同义词并合并到结果中，得分乘以 synonymWeight
+	 * @param terms 查询的分词结果（按原顺序）
+	 * @param field 限定的字段
+	 * @param docMatches 原查询词的匹配结果，同义词的匹配合并到其中
+	 */
+	#matchSynonyms(terms: string[], field: string | undefined, context: IQueryContext, docMatches: Map<number, IDocMatch>): Map<number, IDocMatch> {
+		if (!this.#config.synonyms?.length) return docMatches;
+		this.#synonyms ??= new SynonymMap(this.#config.synonyms, text => this.#getQueryTokens(text, {queryDoc: {text}, fuzzy: 0}).map(t => t.term));
+
+		const weight = this.#config.synonymWeight!;
+		const present = new Set(terms);
+		for (const synonym of this.#synonyms.expand(terms)) {
+			// 同义词已包含在查询中时不重复计分
+			if (synonym.terms.every(term => present.has(term))) continue;
+
+			const matches = synonym.terms.length > 1
+				? this.#matchPhrase({phrase: synonym.text, field}, {...context, queryDoc: {text: synonym.text}})
+				: this.#matchTerms(synonym.terms, context, field);
+			matches.forEach((match, id) => {
+				const scaled: IDocMatch = {score: 0, terms: new Map()};
+				match.terms.forEach((score, term) => addTermScore(scaled, term, score * weight));
+				if (match.explanations) {
+					scaled.explanations = match.explanations.map(e => ({
+						...e,
+						weight: e.weight * weight,
+						score: e.score * weight,
+						fields: e.fields.map(f => ({...f, score: f.score * weight}))
+					}));
+				}
+				const existing = docMatches.get(id);
+				if (existing) {
+					mergeMatch(existing, scaled);
+				} else {
+					docMatches.set(id, scaled);
+				}
+			});
+		}
+		return docMatches;
+	}
+
+	/**
+	 * 在所有词索引段中查找与 term 的编辑距离不超过 maxDistance 的词
+	 * 单字符词及长度不超过 maxDistance 的词不做扩展
+	 * @returns 词到编辑距离的映射，始终包含 term 本身
+	 */
+	#expandFuzzy(term: string, maxDistance: number): Map<string, number> {
+		const terms = new Map<string, number>([[term, 0]]);
+		if (indexTypeOf(term) === 'char' || term.length <= maxDistance) return terms;
+
+		for (const meta of this.#meta.getSegments('word')) {
+			const segment = this.#segments.get(meta.filename);
+			if (!segment) continue;
+			for (const [expanded, distance] of segment.fuzzyTerms(term, maxDistance)) {
+				if (distance < (terms.get(expanded) ?? Infinity)) terms.set(expanded, distance);
+				if (terms.size >= MAX_TERM_EXPANSIONS) return terms;
+			}
+		}
+		return terms;
+	}
+
+	/**
+	 * 前缀与通配符查询：在各索引段的有序词表中展开为匹配的词，任一词命中即匹配
+	 */
+	#matchPattern(query: IPrefixQuery | IWildcardQuery, context: IQueryContext): Map<number, IDocMatch> {
+		if ('prefix' in query) {
+			const prefix = this.#normalizeTerm(query.prefix, context, query.field);
+			return prefix ? this.#matchTerms(this.#expandTerms(prefix, null), context, query.field) : new Map();
+		}
+
+		// 按通配符拆分，普通字符部分分别规范化
+		const parts = query.wildcard.split(/([*?])/)
+			.map(part => part === '*' || part === '?' ? part : this.#normalizeTerm(part, context, query.field));
+		const source = parts.map(part => {
+			if (part === '*') return '.*';
+			if (part === '?') return '.';
+			return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		}).join('');
+		return this.#matchTerms(this.#expandTerms(parts[0], new RegExp(`^${source}$`, 'su')), context, query.field);
+	}
+
+	/**
+	 * 对多个词分别查找，任一词命中即匹配，得分为各命中词之和
+	 * @param terms 要查找的词
+	 * @param context 查询上下文，不满足过滤条件的文档不计分
+	 * @param field 限定的字段
+	 * @param weights 词的得分权重，未设置的词权重为1
+	 */
+	#matchTerms(terms: string[], context: IQueryContext, field?: string, weights?: ReadonlyMap<string, number>): Map<number, IDocMatch> {
+		const docMatches = new Map<number, IDocMatch>();
+		const fieldId = field === undefined ? undefined : this.#meta.getFieldId(field);
+		if (field !== undefined && fieldId === undefined) return docMatches;
+		const stats = this.#getCorpusStats();
+
+		for (const term of terms) {
+			// 限定字段时只统计该字段中包含该词的文档
+			const matches: [number, IFieldPosting[]][] = [];
+			for (const posting of this.#collectPostings(term).values()) {
+				const parts = splitFields(posting, fieldId);
+				if (parts.length > 0) matches.push([posting.id, parts]);
+			}
+
+			for (const [id, parts] of matches) {
+				// 文档频率仍按过滤前的全部文档统计
+				if (context.filter && !context.filter.has(id)) continue;
+				let match = docMatches.get(id);
+				if (!match) {
+					match = {score: 0, terms: new Map()};
+					docMatches.set(id, match);
+				}
+				const weight = weights?.get(term) ?? 1;
+				const fieldScores: IFieldExplanation[] | undefined = context.explain ? [] : undefined;
+				const score = this.#scoreTerm(term, id, parts, matches.length, stats, fieldScores) * weight;
+				addTermScore(match, term, score);
+				if (fieldScores) {
+					for (const field of fieldScores) field.score *= weight;
+					this.#addExplanation(match, term, id, matches.length, weight, score, fieldScores);
+				}
+			}
+		}
+		return docMatches;
+	}
+
+	/**
+	 * 短语与邻近查询：文档必须包含短语中的所有词且位置满足条件
+	 */
+	#matchPhrase(query: IPhraseQuery, context: IQueryContext): Map<number, IDocMatch> {
+		const docMatches = new Map<number, IDocMatch>();
+		const queryTokens = this.#getQueryTokens(query.phrase, context, query.field).filter(t => t.term.length > 0);
+		if (queryTokens.length === 0) return docMatches;
+		const phraseTokens = queryTokens.map(t => t.term);
+		// 词在短语中的相对序号，分词器留出的空位（如被过滤的词）也需要在文档中空出
+		const offsets = queryTokens.map(t => t.position - queryTokens[0].position);
+		const fieldId = query.field === undefined ? undefined : this.#meta.getFieldId(query.field);
+		if (query.field !== undefined && fieldId === undefined) return docMatches;
+
+		// 每个词在各文档中（限定字段时为该字段中）的倒排记录
+		const termParts = phraseTokens.map(term => {
+			const parts = new Map<number, IFieldPosting[]>();
+			for (const posting of this.#collectPostings(term).values()) {
+				const fieldParts = splitFields(posting, fieldId);
+				if (fieldParts.length > 0) parts.set(posting.id, fieldParts);
+			}
+			return parts;
+		});
+		const stats = this.#getCorpusStats();
+
+		for (const id of termParts[0].keys()) {
+			if (context.filter && !context.filter.has(id)) continue;
+			if (!termParts.every(parts => parts.has(id))) continue;
+			const parts = termParts.map(parts => parts.get(id)!);
+			// 字段之间的位置有间隔，不限定字段时直接合并各字段的位置
+			const positions = parts.map(list => list.every(part => part.positions)
+				? list.flatMap(part => part.positions!)
+				: undefined);
+			// 索引段没有位置信息时，退化为要求所有词同时出现
+			if (positions.every(list => list !== undefined) && !matchPhrase(positions as number[][], query.slop, offsets)) {
+				continue;
+			}
+			const match: IDocMatch = {score: 0, terms: new Map()};
+			phraseTokens.forEach((term, i) => {
+				const fieldScores = context.explain ? [] : undefined;
+				const score = this.#scoreTerm(term, id, parts[i], termParts[i].size, stats, fieldScores);
+				addTermScore(match, term, score);
+				if (fieldScores) this.#addExplanation(match, term, id, termParts[i].size, 1, score, fieldScores);
+			});
+			docMatches.set(id, match);
+		}
+		return docMatches;
+	}
+
+	/**
+	 * 布尔查询：must 取交集，should 在没有 must 时取并集、否则只加分，mustNot 排除
+	 */
+	#matchBoolean(query: IBooleanQuery, context: IQueryContext): Map<number, IDocMatch> {
+		const {must = [], should = [], mustNot = []} = query;
+		let docMatches: Map<number, IDocMatch> | null = null;
+
+		for (const clause of must) {
+			const matches = this.#evaluate(clause, context);
+			if (!docMatches) {
+				docMatches = matches;
+				continue;
+			}
+			const intersection = new Map<number, IDocMatch>();
+			for (const [id, match] of docMatches) {
+				const other = matches.get(id);
+				if (other) intersection.set(id, mergeMatch(match, other));
+			}
+			docMatches = intersection;
+		}
+
+		const hasMust = docMatches !== null;
+		const result = docMatches ?? new Map<number, IDocMatch>();
+		for (const clause of should) {
+			if (hasMust && result.size === 0) break;
+			for (const [id, match] of this.#evaluate(clause, context)) {
+				const existing = result.get(id);
+				if (existing) {
+					mergeMatch(existing, match);
+				} else if (!hasMust) {
+					result.set(id, match);
+				}
+			}
+		}
+
+		for (const clause of mustNot) {
+			if (result.size === 0) break;
+			for (const id of this.#evaluate(clause, context).keys()) {
+				result.delete(id);
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * 将前缀或通配符中的普通字符按搜索分词器规范化（如转小写），分词结果不是单个词时保持原样
+	 */
+	#normalizeTerm(text: string, context: IQueryContext, field?: string): string {
+		if (!text) return text;
+		const tokens = this.#getQueryTokens(text, context, field);
+		return tokens.length === 1 ? tokens[0].term : text;
+	}
+
+	/**
+	 * 在所有索引段的词表中查找以 prefix 开头且符合 pattern 的词
+	 */
+	#expandTerms(prefix: string, pattern: RegExp | null): string[] {
+		const terms = new Set<string>();
+		for (const type of ['word', 'char'] as IndexType[]) {
+			// 字索引中只有单个字符
+			if (type === 'char' && indexTypeOf(prefix) === 'word') continue;
+			for (const meta of this.#meta.getSegments(type)) {
+				const segment = this.#segments.get(meta.filename);
+				if (!segment) continue;
+				for (const term of segment.listTerms(prefix)) {
+					if (pattern && !pattern.test(term)) continue;
+					terms.add(term);
+					if (terms.size >= MAX_TERM_EXPANSIONS) return Array.from(terms);
+				}
+			}
+		}
+		return Array.from(terms);
 	}
 
-	#getSearchTokens<T extends IDocumentBase = IDocumentBase>(doc: T): string[] {
+	/**
+	 * 对查询中的一段文本分词，文本与原始查询相同时直接传入原始查询对象
+	 * @param field 限定的字段，使用该字段配置的分词器
+	 */
+	#getQueryTokens(text: string, {queryDoc}: IQueryContext, field?: string): NormalizedToken[] {
+		const doc = text === queryDoc.text ? queryDoc : {...queryDoc, text};
+		const fieldOption = field === undefined ? undefined : this.#config.fields?.[field];
+		const tokens = fieldOption?.searchTokenizer ? normalizeTokens(fieldOption.searchTokenizer(doc))
+			: fieldOption?.indexingTokenizer ? normalizeTokens(fieldOption.indexingTokenizer(doc))
+				: this.#getSearchTokens(doc);
+		return this.#analyze(tokens, this.#config.searchAnalyzers ?? this.#config.indexingAnalyzers);
+	}
+
+	/**
+	 * 依次使用分析器处理每个词，移除结果为空的词，保留其余词的序号与偏移
+	 */
+	#analyze(tokens: NormalizedToken[], filters?: TokenFilter[]): NormalizedToken[] {
+		if (!filters?.length) return tokens;
+		const result: NormalizedToken[] = [];
+		for (const token of tokens) {
+			const term = this.#analyzeTerm(token.term, filters);
+			if (term) result.push({...token, term});
+		}
+		return result;
+	}
+
+	#analyzeTerm(term: string, filters?: TokenFilter[]): string | null {
+		let result: string | null = term;
+		for (const filter of filters ?? []) {
+			result = filter(result);
+			if (!result) return null;
+		}
+		return result;
+	}
+
+	/**
+	 * 查询语法中可限定的字段：已配置的字段与已出现在索引中的字段
+	 */
+	#getQueryFields(): Set<string> {
+		return new Set([...this.#meta.getFields(), ...Object.keys(this.#config.fields ?? {})]);
+	}
+
+	/**
+	 * 在对应类型的所有索引段中查找词的倒排记录，跳过已删除的文档和旧版本
+	 * @returns 文档ID到倒排记录的映射，其大小即该词的文档频率
+	 */
+	#collectPostings(term: string): Map<number, IPosting> {
+		const type = indexTypeOf(term);
+		const deletedIds = this.#meta.getDeletedIds();
+		const result = new Map<number, IPosting>();
+
+		for (const meta of this.#meta.getSegments(type)) {
+			const segment = this.#segments.get(meta.filename);
+			if (!segment) continue;
+			for (const posting of segment.searchPostings(term)) {
+				if (deletedIds.has(posting.id)) continue;
+				if (!this.#meta.isCurrentVersion(posting.id, type, meta)) continue;
+				result.set(posting.id, posting);
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * 从中间缓存读取文档最新版本中某类型的 token
+	 * 按版本记录的位置直接读取；旧版本的索引只为更新过的文档记录了版本，其余文档在缓存中只有一条记录，按索引段的范围依次查找
+	 */
+	async #readCachedTokens(id: number, type: IndexType): Promise<string[]> {
+		const version = this.#meta.getVersion(id)?.[type];
+		if (version === -1) return [];
+
+		const filename = this.#cacheFile(type);
+		const size = await this.#cache.getCurrentSize(filename);
+		if (version !== undefined) {
+			const record = await this.#cache.readAt(filename, version, size);
+			return record?.id === id ? record.tokens : [];
+		}
+
+		const segments = this.#meta.getSegments(type);
+		const ranges = segments.map(seg => [seg.start, seg.end]);
+		// 尚未构建索引段的缓存尾部
+		const indexedEnd = segments.length > 0 ? segments[segments.length - 1].end : 0;
+		if (indexedEnd < size) ranges.push([indexedEnd, size]);
+
+		for (const [start, end] of ranges) {
+			const record = (await this.#cache.readRange(filename, start, end)).find(doc => doc.id === id);
+			if (record) return record.tokens;
+		}
+		return [];
+	}
+
+	/**
+	 * 统计包含词的文档数，跳过已删除的文档和旧版本；只读取文档ID，不解码词频与位置
+	 */
+	#countDocuments(term: string): number {
+		const type = indexTypeOf(term);
+		const deletedIds = this.#meta.getDeletedIds();
+		const ids = new Set<number>();
+
+		for (const meta of this.#meta.getSegments(type)) {
+			const segment = this.#segments.get(meta.filename);
+			if (!segment) continue;
+			for (const id of segment.search(term)) {
+				if (!deletedIds.has(id) && this.#meta.isCurrentVersion(id, type, meta)) ids.add(id);
+			}
+		}
+		return ids.size;
+	}
+
+	/**
+	 * 获取未删除文档的数量与平均长度
+	 * 旧版本构建的索引没有记录文档长度（compact 后重建），此时文档数取已添加的文档数，平均长度按索引段的 token 数估算
+	 */
+	#getCorpusStats(): ICorpusStats {
+		const {count, totalLength} = this.#meta.getDocLengthStats();
+		const docCount = Math.max(count, this.#meta.getAddedIds().size);
+		if (count < docCount) {
+			let tokenCount = 0;
+			for (const type of ['word', 'char'] as IndexType[]) {
+				for (const seg of this.#meta.getSegments(type)) tokenCount += seg.tokenCount;
+			}
+			return {docCount, avgDocLength: tokenCount > 0 ? tokenCount / docCount : 1};
+		}
+		return {
+			docCount,
+			avgDocLength: count > 0 && totalLength > 0 ? totalLength / count : 1
+		};
+	}
+
+	/**
+	 * 使用配置的评分函数计算查询词对文档得分的贡献，各字段分别评分并乘以字段权重
+	 * @param term 查询词
+	 * @param id 文档ID
+	 * @param parts 倒排记录在各字段中的部分
+	 * @param docFrequency 包含该词的文档数
+	 * @param stats 语料统计
+	 */
+	#scoreTerm(term: string, id: number, parts: IFieldPosting[], docFrequency: number, stats: ICorpusStats, explanations?: IFieldExplanation[]): number {
+		const termStats = {
+			type: indexTypeOf(term),
+			docFrequency,
+			...stats
+		} as const;
+		const docLength = this.#meta.getDocLength(id) ?? stats.avgDocLength;
+		const fields = this.#meta.getFields();
+
+		let score = 0;
+		for (const {field, frequency, positions} of parts) {
+			const name = fields[field];
+			const boost = this.#config.fields?.[name]?.boost ?? 1;
+			const fieldScore = boost * this.#scorer(term, termStats, {id, field: name, frequency, docLength, positions});
+			explanations?.push({field: name, frequency, boost, score: fieldScore});
+			score += fieldScore;
+		}
+		return score;
+	}
+
+	/**
+	 * 记录命中词的得分明细
+	 */
+	#addExplanation(match: IDocMatch, term: string, id: number, docFrequency: number, weight: number, score: number, fields: IFieldExplanation[]): void {
+		const type = indexTypeOf(term);
+		(match.explanations ??= []).push({
+			term, type, segment: this.#findSegment(term, id, type) ?? '', docFrequency, weight, score, fields
+		});
+	}
+
+	/**
+	 * 查找文档最新版本中包含该词的索引段
+	 */
+	#findSegment(term: string, id: number, type: IndexType): string | undefined {
+		for (const meta of this.#meta.getSegments(type)) {
+			if (!this.#meta.isCurrentVersion(id, type, meta)) continue;
+			if (this.#segments.get(meta.filename)?.search(term).includes(id)) return meta.filename;
+		}
+		return undefined;
+	}
+
+	#getIndexingTokens<T extends IDocument = IDocument>(doc: T): NormalizedToken[] {
+		return normalizeTokens(this.#config.indexingTokenizer!(doc));
+	}
+
+	/**
+	 * 使用字段配置的索引分词器分词，未配置时使用全局分词器
+	 */
+	#getFieldTokens<T extends IDocument = IDocument>(field: string, doc: T): NormalizedToken[] {
+		const tokenizer = this.#config.fields?.[field]?.indexingTokenizer;
+		return tokenizer ? normalizeTokens(tokenizer(doc)) : this.#getIndexingTokens(doc);
+	}
+
+	/**
+	 * 按字段分词，返回 [字段ID, 分词结果] 列表
+	 * 普通文档只有 text 字段，直接将原文档传给分词器；多字段文档的字段值为数组时每个元素单独分词
+	 */
+	#tokenizeFields(doc: IndexableDocument): [number, NormalizedToken[]][] {
+		const fields: Record<string, string | string[]> = 'fields' in doc ? doc.fields : {text: doc.text};
+		const result: [number, NormalizedToken[]][] = [];
+		for (const [name, value] of Object.entries(fields)) {
+			const id = this.#meta.registerField(name);
+			for (const text of Array.isArray(value) ? value : [value]) {
+				const tokens = this.#getFieldTokens(name, 'fields' in doc ? {...doc, text} : doc);
+				result.push([id, this.#analyze(tokens, this.#config.indexingAnalyzers)]);
+			}
+		}
+		return result;
+	}
+
+	#getSearchTokens<T extends IDocumentBase = IDocumentBase>(doc: T): NormalizedToken[] {
 		if (this.#config.searchTokenizer) {
-			return this.#config.searchTokenizer(doc);
+			return normalizeTokens(this.#config.searchTokenizer(doc));
 		}
 		return this.#getIndexingTokens(doc as any);
 	}
 
+	/**
+	 * 将文档存储中的文档ID还原为外部ID
+	 */
+	#toExternalDoc(doc: IndexableDocument): IndexableDocument<TId> {
+		return {...doc, id: this.#ids.external(doc.id) as TId};
+	}
+
+	/**
+	 * 分词并写入缓存，然后根据批处理状态构建索引段
+	 * @param externalDocs 要写入的文档
+	 * @param updatedIds 作为新版本写入的文档的内部ID，会从删除集合中移除
+	 */
+	async #writeDocuments(externalDocs: IndexableDocument<TId>[], updatedIds?: ReadonlySet<number>) {
+		// 转换为内部ID，新分配的映射先于缓存写入，保证缓存中出现的内部ID都有映射
+		const docs: IndexableDocument[] = externalDocs.map(doc => ({...doc, id: this.#ids.resolve(doc.id)}));
+		await this.#ids.save();
+		const batchWordDocs: ITokenizedDoc[] = [];
+		const batchCharDocs: ITokenizedDoc[] = [];
+
+		const storePositions = !!this.#config.storePositions;
+
+		// 1. 分词与分类，位置为 token 的序号（字符串数组为下标），多字段文档的各字段依次排列并留有间隔
+		docs.forEach((doc, i) => {
+			const word: ITokenizedDoc = {id: doc.id, tokens: [], positions: [], fields: []};
+			const char: ITokenizedDoc = {id: doc.id, tokens: [], positions: [], fields: []};
+			let hasFields = false;
+			let base = 0;
+
+			// 分词器收到调用方传入的原文档
+			for (const [field, rawTokens] of this.#tokenizeFields(externalDocs[i] as IndexableDocument)) {
+				if (field !== 0) hasFields = true;
+				let maxPosition = -1;
+				for (const {term, position} of rawTokens) {
+					const target = !term ? null : indexTypeOf(term) === 'word' ? word : char;
+					if (!target) continue;
+					target.tokens.push(term);
+					target.positions!.push(base + position);
+					target.fields!.push(field);
+					maxPosition = Math.max(maxPosition, position);
+				}
+				base += maxPosition + 1 + FIELD_POSITION_GAP;
+			}
+
+			for (const [target, batch] of [[word, batchWordDocs], [char, batchCharDocs]] as const) {
+				if (target.tokens.length === 0) continue;
+				if (!storePositions) delete target.positions;
+				if (!hasFields) delete target.fields;
+				batch.push(target);
+			}
+		});
+
+		// 2. 写入 Cache (必须立即持久化以防丢失)
+		let addedWordTokens = 0;
+		let addedCharTokens = 0;
+		const versions = new Map<number, IDocumentVersion>();
+		for (const doc of docs) versions.set(doc.id, {word: -1, char: -1});
+
+		if (batchWordDocs.length > 0) {
+			const offsets = await this.#cache.appendBatch(this.#cacheFile('word'), batchWordDocs);
+			batchWordDocs.forEach((d, i) => {
+				versions.get(d.id)!.word = offsets[i];
+				addedWordTokens += d.tokens.length;
+			});
+		}
+
+		if (batchCharDocs.length > 0) {
+			const offsets = await this.#cache.appendBatch(this.#cacheFile('char'), batchCharDocs);
+			batchCharDocs.forEach((d, i) => {
+				versions.get(d.id)!.char = offsets[i];
+				addedCharTokens += d.tokens.length;
+			});
+		}
+
+		// 更新已添加ID集合、文档版本与文档长度；每个文档都记录版本位置，读取缓存时无需扫描索引段的范围
+		const docLengths = new Map<number, number>();
+		for (const d of batchWordDocs) docLengths.set(d.id, d.tokens.length);
+		for (const d of batchCharDocs) docLengths.set(d.id, (docLengths.get(d.id) ?? 0) + d.tokens.length);
+		for (const doc of docs) {
+			this.#meta.setDocLength(doc.id, docLengths.get(doc.id) ?? 0);
+			if (updatedIds?.has(doc.id)) this.#meta.removeDeletedId(doc.id);
+			this.#meta.setVersion(doc.id, versions.get(doc.id)!);
+			this.#meta.addAddedId(doc.id);
+		}
+		if (this.#config.storeDocuments) await this.#docStore.write(docs);
+		if (this.#config.filterableAttributes) await this.#attributes.write(docs);
+
+		// 3. 处理逻辑分支
+		if (this.#inBatch) {
+			// 批处理模式：累加计数，暂不处理 Segment
+			this.#pendingTokenCounts.word += addedWordTokens;
+			this.#pendingTokenCounts.char += addedCharTokens;
+		} else {
+			// 实时模式：立即处理并保存
+			if (addedWordTokens > 0) await this.#processSegmentLogic('word', addedWordTokens);
+			if (addedCharTokens > 0) await this.#processSegmentLogic('char', addedCharTokens);
+			await this.#autoMergeSegments('word');
+			await this.#autoMergeSegments('char');
+			await this.#meta.save();
+		}
+	}
+
+	/**
+	 * 存储占用的总字节数，包括文档存储
+	 */
+	async #getStorageSize(): Promise<number> {
+		let size = 0;
+		for (const filename of await this.#storage.listFiles()) {
+			size += await this.#storage.getFileSize(filename);
+		}
+		return size;
+	}
+
+	/**
+	 * 重写某类型的中间缓存，并按原有的分段重新构建该类型的索引段
+	 * 每个旧段中保留的文档构成一个新段，不再包含文档的段被移除；新段总是构建索引，使压缩前可搜索的文档仍可搜索
+	 * 新的中间缓存写入 generation 序号的文件，不修改当前使用的缓存
+	 * @param docLengths 累加保留文档的 token 数，用于重建文档长度（旧版本的索引没有记录）
+	 * @param versions 记录保留文档在新缓存中的位置
+	 * @returns 新的索引段列表，由调用方在全部写入完成后切换元数据，保存元数据后再删除旧段与旧缓存文件
+	 */
+	async #compactSegments(type: IndexType, generation: number, docLengths: Map<number, number>, versions: Map<number, IDocumentVersion>): Promise<ISegmentMeta[]> {
+		const cacheFilename = this.#cacheFile(type);
+		const newCacheFilename = this.#cacheFile(type, generation);
+		const deletedIds = this.#meta.getDeletedIds();
+		const oldSegments = this.#meta.getSegments(type);
+		const oldCacheSize = await this.#cache.getCurrentSize(cacheFilename);
+
+		// 每个文档只保留最后写入的版本及其所在的段，并丢弃已删除的文档
+		const latestDocs = new Map<number, { group: number, doc: ITokenizedDoc }>();
+		for (let i = 0; i < oldSegments.length; i++) {
+			// 最后一个段之后的缓存数据（写入中断时留下）归入最后一个段
+			const end = i === oldSegments.length - 1 ? oldCacheSize : oldSegments[i].end;
+			for (const doc of await this.#cache.readRange(cacheFilename, oldSegments[i].start, end)) {
+				latestDocs.delete(doc.id);
+				if (deletedIds.has(doc.id)) continue;
+				// 最新版本不包含该类型的 token
+				if (this.#meta.getVersion(doc.id)?.[type] === -1) continue;
+				latestDocs.set(doc.id, {group: i, doc});
+			}
+		}
+
+		const groups: ITokenizedDoc[][] = oldSegments.map(() => []);
+		for (const {group, doc} of latestDocs.values()) {
+			groups[group].push(doc);
+			docLengths.set(doc.id, (docLengths.get(doc.id) ?? 0) + doc.tokens.length);
+		}
+		const kept = groups.filter(docs => docs.length > 0);
+
+		const keptDocs = kept.flat();
+		const offsets = await this.#cache.rewrite(newCacheFilename, keptDocs);
+		keptDocs.forEach((doc, i) => {
+			if (!versions.has(doc.id)) versions.set(doc.id, {word: -1, char: -1});
+			versions.get(doc.id)![type] = offsets[i];
+		});
+		const cacheSize = await this.#cache.getCurrentSize(newCacheFilename);
+
+		const segments: ISegmentMeta[] = [];
+		let first = 0;
+		for (const docs of kept) {
+			const filename = this.#generateSegmentName(type, segments.length);
+			const segment = this.#createSegment(filename);
+			await segment.buildAndSave(docs);
+			this.#segments.set(filename, segment);
+
+			const next = first + docs.length;
+			segments.push({
+				filename,
+				start: offsets[first],
+				end: next < offsets.length ? offsets[next] : cacheSize,
+				tokenCount: docs.reduce((sum, doc) => sum + doc.tokens.length, 0)
+			});
+			first = next;
+		}
+		return segments;
+	}
+
 	/**
 	 * 核心索引段处理逻辑
 	 * 负责判断是否需要合并、新建 Segment，并执行构建
 	 */
 	async #processSegmentLogic(type: IndexType, addedTokenCount: number) {
-		const cacheFilename = type === 'word' ? WORD_CACHE_FILE : CHAR_CACHE_FILE;
+		const cacheFilename = this.#cacheFile(type);
 		const currentCacheSize = await this.#cache.getCurrentSize(cacheFilename);
-
-		const segThreshold = type === 'word'
-			? (this.#config.wordSegmentTokenThreshold || 100000)
-			: (this.#config.charSegmentTokenThreshold || 500000);
-
-		const minSave = type === 'word'
-			? (this.#config.minWordTokenSave || 0)
-			: (this.#config.minCharTokenSave || 0);
+		const segThreshold = this.#getSegmentThreshold(type);
+		const minSave = this.#getMinTokenSave(type);
 
 		const lastSegInfo = this.#meta.getLastSegmentInfo(type);
 
@@ -466,17 +1660,10 @@ export class SearchEngine implements ISearchEngine {
 		let isNew: boolean;
 		let newTokenCountTotal: number;
 
-		// 生成唯一的分段文件名（从1开始递增）
-		const generateSegmentName = () => {
-			const segments = this.#meta.getSegments(type);
-			const nextNumber = segments.length + 1;
-			return `${type}_seg_${nextNumber}.bin`;
-		};
-
 		// 逻辑：确定目标 Segment 和 数据范围
 		if (!lastSegInfo) {
 			// Case 1: 没有任何 Segment，这是第一个
-			targetSegmentName = generateSegmentName();
+			targetSegmentName = this.#generateSegmentName(type);
 			isNew = true;
 			startOffset = 0;
 			newTokenCountTotal = addedTokenCount;
@@ -485,7 +1672,7 @@ export class SearchEngine implements ISearchEngine {
 			// 检查之前的 Segment 是否已经满了，或者加上新增的会超过阈值
 			if (existingTokenCount >= segThreshold || (existingTokenCount + addedTokenCount) >= segThreshold) {
 				// Case 2: 上一个满了，或者加上新增的会超过阈值，开启新的
-				targetSegmentName = generateSegmentName();
+				targetSegmentName = this.#generateSegmentName(type);
 				isNew = true;
 				startOffset = lastSegInfo.end; // 新的起始位置是上一个的结束位置
 				newTokenCountTotal = addedTokenCount;
@@ -506,22 +1693,135 @@ export class SearchEngine implements ISearchEngine {
 
 		// 需要构建索引：从 Cache 读取所需数据
 		// 注意：Cache 中可能包含比我们需要更多的数据（如果是 Batch 模式），我们只读 [startOffset, currentCacheSize]
-		const docsToBuild = await this.#cache.readRange(cacheFilename, startOffset, currentCacheSize);
+		await this.#buildSegment(type, targetSegmentName, startOffset, currentCacheSize);
+
+		// 更新元数据
+		this.#meta.updateSegment(type, targetSegmentName, startOffset, currentCacheSize, newTokenCountTotal, isNew);
+	}
+
+	/**
+	 * 从 Cache 的 [start, end) 范围构建索引段并写入文件
+	 */
+	async #buildSegment(type: IndexType, filename: string, start: number, end: number) {
+		const cacheFilename = this.#cacheFile(type);
+		const docsToBuild = await this.#cache.readRange(cacheFilename, start, end);
 
-		let segment = this.#segments.get(targetSegmentName);
+		let segment = this.#segments.get(filename);
 		if (!segment) {
-			if (this.#isHash64Bit) {
-				segment = new IndexSegment64(targetSegmentName, this.#storage, this.#hashAlgorithm64!);
-			} else {
-				segment = new IndexSegment(targetSegmentName, this.#storage, this.#hashAlgorithm32!);
-			}
-			this.#segments.set(targetSegmentName, segment);
+			segment = this.#createSegment(filename);
+			this.#segments.set(filename, segment);
+		}
+
+		// 同一文档可能因更新存在多个版本，只保留最后写入的版本
+		const latestDocs = new Map<number, ITokenizedDoc>();
+		for (const doc of docsToBuild) {
+			latestDocs.delete(doc.id);
+			latestDocs.set(doc.id, doc);
 		}
 
 		// 构建倒排索引并写入文件
-		await segment.buildAndSave(docsToBuild);
+		await segment.buildAndSave(Array.from(latestDocs.values()));
+	}
 
-		// 更新元数据
-		this.#meta.updateSegment(type, targetSegmentName, startOffset, currentCacheSize, newTokenCountTotal, isNew);
+	/**
+	 * 删除索引段文件及其附加数据文件
+	 */
+	async #removeSegmentFiles(filename: string) {
+		await this.#storage.remove(filename);
+		await this.#storage.remove(PostingPayload.filenameOf(filename));
+		await this.#storage.remove(TermTable.filenameOf(filename));
+		this.#segments.delete(filename);
+	}
+
+	/**
+	 * 生成唯一的分段文件名（取现有最大编号加1）
+	 * 合并后编号不再连续，因此不能使用段数量作为编号
+	 * @param skip 已生成但尚未写入元数据的段数
+	 */
+	#generateSegmentName(type: IndexType, skip: number = 0): string {
+		let maxNumber = 0;
+		for (const seg of this.#meta.getSegments(type)) {
+			const match = /_(\d+)\.bin$/.exec(seg.filename);
+			if (match) maxNumber = Math.max(maxNumber, Number(match[1]));
+		}
+		return `${type}_seg_${maxNumber + 1 + skip}.bin`;
+	}
+
+	/**
+	 * 中间缓存的文件名，compact 后带有数据文件的序号
+	 */
+	#cacheFile(type: IndexType, generation: number = this.#meta.getGeneration()): string {
+		const filename = type === 'word' ? WORD_CACHE_FILE : CHAR_CACHE_FILE;
+		return generation > 0 ? filename.replace(/\.bin$/, `_${generation}.bin`) : filename;
+	}
+
+	#getSegmentThreshold(type: IndexType): number {
+		return type === 'word'
+			? (this.#config.wordSegmentTokenThreshold || 100000)
+			: (this.#config.charSegmentTokenThreshold || 500000);
+	}
+
+	#getMinTokenSave(type: IndexType): number {
+		return type === 'word'
+			? (this.#config.minWordTokenSave || 0)
+			: (this.#config.minCharTokenSave || 0);
+	}
+
+	/**
+	 * 将 [from, to] 范围内相邻的索引段合并为一个
+	 * 相邻段在 Cache 中是连续的，合并即对整个范围重新构建索引
+	 */
+	async #mergeSegments(type: IndexType, from: number, to: number) {
+		const segments = [...this.#meta.getSegments(type)];
+		const group = segments.slice(from, to + 1);
+		if (group.length < 2) return;
+
+		const merged: ISegmentMeta = {
+			filename: this.#generateSegmentName(type),
+			start: group[0].start,
+			end: group[group.length - 1].end,
+			tokenCount: group.reduce((sum, seg) => sum + seg.tokenCount, 0)
+		};
+
+		// 先写入新段，再切换并保存元数据，最后删除旧段文件，中途失败时元数据不会指向已删除的文件
+		await this.#buildSegment(type, merged.filename, merged.start, merged.end);
+		segments.splice(from, group.length, merged);
+		this.#meta.setSegments(type, segments);
+		await this.#meta.save();
+
+		for (const seg of group) {
+			await this.#removeSegmentFiles(seg.filename);
+		}
+	}
+
+	/**
+	 * 分层合并策略
+	 * 按 token 数将索引段划分层级（以分段阈值为基准，每层大小乘以合并因子），
+	 * 同一层级的相邻段数量达到合并因子时合并为上一层级的一个段；
+	 * 最后一个段仍在接收新数据，不参与自动合并
+	 */
+	async #autoMergeSegments(type: IndexType) {
+		const factor = this.#config.segmentMergeFactor || 0;
+		if (factor < 2) return;
+
+		const threshold = this.#getSegmentThreshold(type);
+		const tierOf = (seg: ISegmentMeta) =>
+			Math.max(0, Math.round(Math.log(Math.max(seg.tokenCount, 1) / threshold) / Math.log(factor)));
+
+		let merged = true;
+		while (merged) {
+			merged = false;
+			const segments = this.#meta.getSegments(type);
+			let runStart = 0;
+			for (let i = 1; i < segments.length - 1; i++) {
+				if (tierOf(segments[i]) !== tierOf(segments[runStart])) {
+					runStart = i;
+				} else if (i - runStart + 1 >= factor) {
+					await this.#mergeSegments(type, runStart, i);
+					merged = true;
+					break;
+				}
+			}
+		}
 	}
 }
@@ -0,0 +1,79 @@
+import {SynonymRule} from '../type';
+
+/**
+ * 同义词扩展结果
+ */
+export interface ISynonymExpansion {
+	/**
+	 * 同义词原文，多个词时按短语查询
+	 */
+	text: string;
+	/**
+	 * 同义词的分词结果
+	 */
+	terms: string[];
+}
+
+interface ISynonymEntry {
+	source: string[];
+	targets: ISynonymExpansion[];
+}
+
+/**
+ * 同义词表
+ * 规则中的词使用搜索分词器与分析器处理后，与查询的分词结果按连续词序列匹配
+ */
+export class SynonymMap {
+	#entries: ISynonymEntry[] = [];
+
+	/**
+	 * @param rules 同义词规则
+	 * @param tokenize 将规则中的词转换为查询词序列
+	 */
+	constructor(rules: SynonymRule[], tokenize: (text: string) => string[]) {
+		const add = (from: string, to: string[]) => {
+			const source = tokenize(from);
+			if (source.length === 0) return;
+			const key = source.join(' ');
+			const targets = to
+				.map(text => ({text, terms: tokenize(text)}))
+				.filter(target => target.terms.length > 0 && target.terms.join(' ') !== key);
+			if (targets.length > 0) this.#entries.push({source, targets});
+		};
+
+		for (const rule of rules) {
+			if (Array.isArray(rule)) {
+				for (const word of rule) add(word, rule.filter(other => other !== word));
+			} else {
+				add(rule.from, rule.to);
+			}
+		}
+	}
+
+	get size(): number {
+		return this.#entries.length;
+	}
+
+	/**
+	 * 查找查询词序列中出现的同义词，返回需要额外查询的同义词（去重）
+	 * @param terms 查询的分词结果
+	 */
+	expand(terms: string[]): ISynonymExpansion[] {
+		const result = new Map<string, ISynonymExpansion>();
+		for (const {source, targets} of this.#entries) {
+			if (!containsSequence(terms, source)) continue;
+			for (const target of targets) {
+				const key = target.terms.join(' ');
+				if (!result.has(key)) result.set(key, target);
+			}
+		}
+		return Array.from(result.values());
+	}
+}
+
+function containsSequence(terms: string[], sequence: string[]): boolean {
+	for (let i = 0; i + sequence.length <= terms.length; i++) {
+		if (sequence.every((term, j) => terms[i + j] === term)) return true;
+	}
+	return false;
+}
@@ -0,0 +1,118 @@
+import {IStorage} from '../type';
+import {findFuzzyTerms} from './FuzzyMatcher';
+
+/**
+ * 有序词表
+ * 与索引段的哈希字典并存，按词排序存放索引段中的全部词，用于前缀、通配符与模糊查询
+ *
+ * 结构：
+ *  Header: 12 (magic + 词数量 + 标志位)
+ *  Offsets: (termCount + 1) * 4，每个词 UTF-8 数据的起始字节位置
+ *  Data: 按 UTF-16 码元顺序排列的词 (UTF-8)
+ */
+export class TermTable {
+	static readonly MAGIC = 0x5445524D; // 'TERM'
+
+	#view: DataView;
+	#bytes: Uint8Array;
+	#decoder = new TextDecoder();
+
+	constructor(buffer: ArrayBuffer) {
+		this.#view = new DataView(buffer);
+		this.#bytes = new Uint8Array(buffer);
+	}
+
+	/**
+	 * 由索引段文件名得到词表文件名，如 word_seg_1.bin -> word_terms_1.bin
+	 */
+	static filenameOf(segmentFilename: string): string {
+		return segmentFilename.replace('_seg_', '_terms_');
+	}
+
+	/**
+	 * 读取词表文件，文件不存在或格式不符时返回 null
+	 */
+	static async load(storage: IStorage, segmentFilename: string): Promise<TermTable | null> {
+		const buffer = await storage.read(TermTable.filenameOf(segmentFilename));
+		if (!buffer || buffer.byteLength < 12) return null;
+		if (new DataView(buffer).getUint32(0) !== TermTable.MAGIC) return null;
+		return new TermTable(buffer);
+	}
+
+	/**
+	 * 编码词表
+	 * @param terms 不重复的词，无需预先排序
+	 */
+	static encode(terms: string[]): ArrayBuffer {
+		const sorted = [...terms].sort((a, b) => a < b ? -1 : a > b ? 1 : 0);
+		const encoder = new TextEncoder();
+		const encoded = sorted.map(term => encoder.encode(term));
+
+		const count = sorted.length;
+		const headerSize = 12;
+		const offsetsSize = (count + 1) * 4;
+		const dataSize = encoded.reduce((sum, bytes) => sum + bytes.length, 0);
+
+		const buffer = new ArrayBuffer(headerSize + offsetsSize + dataSize);
+		const view = new DataView(buffer);
+		const bytes = new Uint8Array(buffer);
+		view.setUint32(0, TermTable.MAGIC);
+		view.setUint32(4, count, true);
+		view.setUint32(8, 0, true);
+
+		let dataOffset = headerSize + offsetsSize;
+		for (let i = 0; i < count; i++) {
+			view.setUint32(headerSize + i * 4, dataOffset, true);
+			bytes.set(encoded[i], dataOffset);
+			dataOffset += encoded[i].length;
+		}
+		view.setUint32(headerSize + count * 4, dataOffset, true);
+		return buffer;
+	}
+
+	get size(): number {
+		return this.#view.getUint32(4, true);
+	}
+
+	/**
+	 * 列出以 prefix 开头的词（按顺序）
+	 * @param prefix 前缀，为空时返回全部词
+	 */
+	listTerms(prefix: string): string[] {
+		const count = this.size;
+
+		// 二分查找第一个不小于 prefix 的词
+		let left = 0;
+		let right = count;
+		while (left < right) {
+			const mid = (left + right) >>> 1;
+			if (this.#termAt(mid) < prefix) {
+				left = mid + 1;
+			} else {
+				right = mid;
+			}
+		}
+
+		const result: string[] = [];
+		for (let i = left; i < count; i++) {
+			const term = this.#termAt(i);
+			if (!term.startsWith(prefix)) break;
+			result.push(term);
+		}
+		return result;
+	}
+
+	/**
+	 * 查找与 term 的编辑距离不超过 maxDistance 的词
+	 * @returns 匹配的词到编辑距离的映射
+	 */
+	fuzzyTerms(term: string, maxDistance: number): Map<string, number> {
+		return findFuzzyTerms(this.size, i => this.#termAt(i), term, maxDistance);
+	}
+
+	#termAt(index: number): string {
+		const start = this.#view.getUint32(12 + index * 4, true);
+		const end = this.#view.getUint32(16 + index * 4, true);
+		return this.#decoder.decode(this.#bytes.subarray(start, end));
+	}
+}
@@ -0,0 +1,68 @@
+import {TokenFilter} from "../type";
+import {porterStem} from "./porterStem";
+
+/**
+ * Unicode NFKC 规范化，如全角字母转半角、合字拆分（ﬁ → fi）
+ */
+export const nfkcFilter: TokenFilter = term => term.normalize('NFKC');
+
+/**
+ * 转小写
+ */
+export const lowercaseFilter: TokenFilter = term => term.toLowerCase();
+
+/**
+ * 去除拉丁、希腊、西里尔字母上的变音符号，如 café → cafe、Ångström → Angstrom
+ * 只去除组合变音符号区 (U+0300 - U+036F) 的字符，日文浊音符等其他组合字符保持不变
+ */
+export const diacriticFilter: TokenFilter = term => term.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+
+/**
+ * Porter 英文词干提取，如 running → run、connections → connect
+ * 需要放在转小写之后
+ */
+export const porterStemFilter: TokenFilter = term => porterStem(term);
+
+/**
+ * 内置停用词表
+ */
+export const STOPWORDS: Readonly<Record<'en' | 'de' | 'fr' | 'es', readonly string[]>> = {
+	en: [
+		'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into', 'is', 'it',
+		'no', 'not', 'of', 'on', 'or', 'such', 'that', 'the', 'their', 'then', 'there', 'these',
+		'they', 'this', 'to', 'was', 'will', 'with'
+	],
+	de: [
+		'aber', 'als', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'das', 'dass', 'dem',
+		'den', 'der', 'des', 'die', 'doch', 'du', 'ein', 'eine', 'einem', 'einen', 'einer', 'eines',
+		'er', 'es', 'für', 'hat', 'ich', 'ihr', 'im', 'in', 'ist', 'ja', 'mit', 'nach', 'nicht', 'noch',
+		'oder', 'sie', 'sind', 'so', 'um', 'und', 'uns', 'von', 'vor', 'war', 'was', 'wie', 'wir', 'zu', 'zum', 'zur'
+	],
+	fr: [
+		'au', 'aux', 'avec', 'ce', 'ces', 'dans', 'de', 'des', 'du', 'elle', 'en', 'est', 'et', 'eux',
+		'il', 'je', 'la', 'le', 'les', 'leur', 'lui', 'ma', 'mais', 'me', 'mes', 'moi', 'mon', 'ne',
+		'nos', 'notre', 'nous', 'on', 'ou', 'par', 'pas', 'pour', 'qu', 'que', 'qui', 'sa', 'se', 'ses',
+		'son', 'sur', 'ta', 'te', 'tes', 'toi', 'ton', 'tu', 'un', 'une', 'vos', 'votre', 'vous'
+	],
+	es: [
+		'a', 'al', 'como', 'con', 'de', 'del', 'el', 'en', 'es', 'esta', 'este', 'ha', 'la', 'las',
+		'le', 'les', 'lo', 'los', 'más', 'me', 'mi', 'no', 'o', 'para', 'pero', 'por', 'que', 'se',
+		'si', 'sin', 'su', 'sus', 'te', 'tu', 'un', 'una', 'y', 'ya'
+	]
+};
+
+/**
+ * 创建停用词过滤器，停用词被移除但保留其序号，短语查询仍按原位置匹配
+ * @param words 内置停用词表的语言，或自定义停用词（需与过滤器之前的处理结果一致，如已转小写）
+ */
+export function createStopwordFilter(words: keyof typeof STOPWORDS | readonly string[] | ReadonlySet<string>): TokenFilter {
+	const set = new Set(typeof words === 'string' ? STOPWORDS[words] : words);
+	return term => set.has(term) ? null : term;
+}
+
+/**
+ * 英文常用分析器组合：NFKC 规范化、转小写、去除变音符号、英文停用词、Porter 词干提取
+ */
+export function createEnglishAnalyzers(): TokenFilter[] {
+	return [nfkcFilter, lowercaseFilter, diacriticFilter, createStopwordFilter('en'), porterStemFilter];
+}
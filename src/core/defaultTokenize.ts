@@ -1,6 +1,9 @@
-import {IDocumentBase, IndexingTokenizer} from "../type";
+import {IDocumentBase, IToken} from "../type";
 
-export const defaultTokenize: IndexingTokenizer = ({text}: IDocumentBase) => {
+/**
+ * 默认分词器，返回带字符偏移与序号的 token
+ */
+export const defaultTokenize = ({text}: IDocumentBase): IToken[] => {
 	try {
 		// 检查Intl.Segmenter是否可用且支持所需的功能
 		if (typeof Intl !== 'undefined' &&
@@ -11,12 +14,22 @@ export const defaultTokenize: IndexingTokenizer = ({text}: IDocumentBase) => {
 			if (typeof segments === 'object' && segments !== null) {
 				return Array.from(segments)
 					.filter((s: any) => s?.isWordLike)
-					.map((s: any) => s?.segment?.toLowerCase() || '');
+					.map((s: any, position) => {
+						const segment: string = s?.segment || '';
+						const start: number = s?.index ?? 0;
+						return {term: segment.toLowerCase(), start, end: start + segment.length, position};
+					});
 			}
 		}
 	} catch (e) {
 		// 忽略任何Intl.Segmenter相关的错误，回退到基本分词
 	}
 	// 基本分词逻辑，确保在所有环境下都能工作
-	return text.toLowerCase().split(/[^a-z0-9\u4e00-\u9fa5]+/g).filter(t => t.length > 0);
+	// 已有索引按此规则分词，改变规则需要重建索引；需要 CJK n-gram 分词时设置 tokenizer: 'ngram'
+	return Array.from(text.matchAll(/[a-z0-9\u4e00-\u9fa5]+/gi), (match, position) => ({
+		term: match[0].toLowerCase(),
+		start: match.index!,
+		end: match.index! + match[0].length,
+		position
+	}));
 }
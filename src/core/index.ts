@@ -1,4 +1,10 @@
 export * from './SearchEngine';
+export {parseQuery} from './QueryParser';
+export {defaultTokenize} from './defaultTokenize';
+export {createNgramTokenizer} from './ngramTokenize';
+export * from './analyzers';
+export {porterStem} from './porterStem';
+export * from './Scorer';
 export * from './murmur3_32';
 export * from './murmur3_64';
 export * from './hash/Murmur3';
@@ -0,0 +1,53 @@
+import {IDocumentBase, INgramTokenizerOption, IToken} from "../type";
+
+// 汉字（含扩展区）、平假名、片假名（含长音符）与韩文
+const CJK = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}\\u30FC';
+const WORD_PATTERN = new RegExp(`[\\p{L}\\p{N}\\p{M}${CJK}]+`, 'gu');
+const RUN_PATTERN = new RegExp(`([${CJK}]+)|([^${CJK}]+)`, 'gu');
+
+/**
+ * 创建 CJK n-gram 分词器
+ * 中日韩文字按 n 个字符一组滑动切分，其余文字（拉丁字母、数字等）按单词切分并转小写
+ * 每个 CJK 字符占一个序号，n-gram 与其首字符的单字使用相同序号，以便短语查询按字符相邻匹配
+ */
+export function createNgramTokenizer({n = 2, unigrams = true}: INgramTokenizerOption = {}) {
+	const size = Math.max(1, Math.floor(n));
+
+	return ({text}: IDocumentBase): IToken[] => {
+		const tokens: IToken[] = [];
+		let position = 0;
+
+		for (const word of text.matchAll(WORD_PATTERN)) {
+			for (const run of word[0].matchAll(RUN_PATTERN)) {
+				const runStart = word.index! + run.index!;
+				if (!run[1]) {
+					tokens.push({term: run[0].toLowerCase(), start: runStart, end: runStart + run[0].length, position: position++});
+					continue;
+				}
+
+				// 按码点切分，扩展区汉字占两个 UTF-16 码元
+				const chars = Array.from(run[1]);
+				const offsets: number[] = [];
+				let offset = runStart;
+				for (const char of chars) {
+					offsets.push(offset);
+					offset += char.length;
+				}
+				offsets.push(offset);
+
+				for (let i = 0; i < chars.length; i++) {
+					if (unigrams && size > 1) {
+						tokens.push({term: chars[i], start: offsets[i], end: offsets[i + 1], position: position + i});
+					}
+					const end = Math.min(chars.length, i + size);
+					// 短于 n 的片段整体作为一个词（已输出单字时除外）
+					if (end - i === size || (i === 0 && !(unigrams && chars.length === 1))) {
+						tokens.push({term: chars.slice(i, end).join(''), start: offsets[i], end: offsets[end], position: position + i});
+					}
+				}
+				position += chars.length;
+			}
+		}
+		return tokens;
+	};
+}
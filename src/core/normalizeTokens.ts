@@ -0,0 +1,13 @@
+import {IToken} from "../type";
+
+/**
+ * 统一后的分词结果，字符串数组形式的分词结果没有字符偏移
+ */
+export type NormalizedToken = Omit<IToken, 'start' | 'end'> & Partial<Pick<IToken, 'start' | 'end'>>;
+
+/**
+ * 将分词器的返回值统一为带序号的 token，字符串数组的序号为下标
+ */
+export function normalizeTokens(tokens: string[] | IToken[]): NormalizedToken[] {
+	return tokens.map((token, i) => typeof token === 'string' ? {term: token, position: i} : token);
+}
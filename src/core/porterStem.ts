@@ -0,0 +1,150 @@
+/**
+ * Porter 词干提取算法（M.F. Porter, 1980）
+ * 只处理小写英文单词，长度不超过 2 的词与包含非 a-z 字符的词保持原样
+ */
+export function porterStem(word: string): string {
+	if (word.length <= 2 || !/^[a-z]+$/.test(word)) return word;
+
+	let w = step1a(word);
+	w = step1b(w);
+	w = step1c(w);
+	w = replaceSuffix(w, STEP2, 0);
+	w = replaceSuffix(w, STEP3, 0);
+	w = step4(w);
+	w = step5(w);
+	return w;
+}
+
+const STEP2: [string, string][] = [
+	['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+	['abli', 'able'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+	['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+	['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble']
+];
+
+const STEP3: [string, string][] = [
+	['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', '']
+];
+
+const STEP4 = [
+	'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent',
+	'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize'
+];
+
+/**
+ * 第 i 个字符是否为辅音，y 在辅音之后时视为元音
+ */
+function isConsonant(w: string, i: number): boolean {
+	const c = w[i];
+	if (c === 'a' || c === 'e' || c === 'i' || c === 'o' || c === 'u') return false;
+	if (c === 'y') return i === 0 || !isConsonant(w, i - 1);
+	return true;
+}
+
+/**
+ * 词的度量 m，即 [C](VC)^m[V] 中 VC 的重复次数
+ */
+function measure(w: string): number {
+	let m = 0;
+	let i = 0;
+	while (i < w.length && isConsonant(w, i)) i++;
+	while (i < w.length) {
+		while (i < w.length && !isConsonant(w, i)) i++;
+		if (i >= w.length) break;
+		m++;
+		while (i < w.length && isConsonant(w, i)) i++;
+	}
+	return m;
+}
+
+function hasVowel(w: string): boolean {
+	for (let i = 0; i < w.length; i++) {
+		if (!isConsonant(w, i)) return true;
+	}
+	return false;
+}
+
+function endsWithDoubleConsonant(w: string): boolean {
+	const n = w.length;
+	return n >= 2 && w[n - 1] === w[n - 2] && isConsonant(w, n - 1);
+}
+
+/**
+ * 是否以 辅音-元音-辅音 结尾，且最后的辅音不是 w、x、y
+ */
+function endsWithCvc(w: string): boolean {
+	const n = w.length;
+	if (n < 3) return false;
+	if (!isConsonant(w, n - 3) || isConsonant(w, n - 2) || !isConsonant(w, n - 1)) return false;
+	const c = w[n - 1];
+	return c !== 'w' && c !== 'x' && c !== 'y';
+}
+
+/**
+ * 按最长匹配替换后缀，替换前的词干度量需大于 minMeasure
+ */
+function replaceSuffix(w: string, rules: [string, string][], minMeasure: number): string {
+	let best: [string, string] | null = null;
+	for (const rule of rules) {
+		if (w.endsWith(rule[0]) && (!best || rule[0].length > best[0].length)) best = rule;
+	}
+	if (!best) return w;
+	const stem = w.slice(0, w.length - best[0].length);
+	return measure(stem) > minMeasure ? stem + best[1] : w;
+}
+
+function step1a(w: string): string {
+	if (w.endsWith('sses')) return w.slice(0, -2);
+	if (w.endsWith('ies')) return w.slice(0, -2);
+	if (w.endsWith('ss')) return w;
+	if (w.endsWith('s')) return w.slice(0, -1);
+	return w;
+}
+
+function step1b(w: string): string {
+	if (w.endsWith('eed')) {
+		return measure(w.slice(0, -3)) > 0 ? w.slice(0, -1) : w;
+	}
+
+	let stem: string;
+	if (w.endsWith('ed')) {
+		stem = w.slice(0, -2);
+	} else if (w.endsWith('ing')) {
+		stem = w.slice(0, -3);
+	} else {
+		return w;
+	}
+	if (!hasVowel(stem)) return w;
+
+	if (stem.endsWith('at') || stem.endsWith('bl') || stem.endsWith('iz')) return stem + 'e';
+	if (endsWithDoubleConsonant(stem) && !/[lsz]$/.test(stem)) return stem.slice(0, -1);
+	if (measure(stem) === 1 && endsWithCvc(stem)) return stem + 'e';
+	return stem;
+}
+
+function step1c(w: string): string {
+	return w.endsWith('y') && hasVowel(w.slice(0, -1)) ? w.slice(0, -1) + 'i' : w;
+}
+
+function step4(w: string): string {
+	let best = '';
+	for (const suffix of STEP4) {
+		if (w.endsWith(suffix) && suffix.length > best.length) best = suffix;
+	}
+	if (!best) return w;
+	const stem = w.slice(0, w.length - best.length);
+	if (measure(stem) <= 1) return w;
+	// -ion 只在词干以 s 或 t 结尾时去除
+	if (best === 'ion' && !/[st]$/.test(stem)) return w;
+	return stem;
+}
+
+function step5(w: string): string {
+	if (w.endsWith('e')) {
+		const stem = w.slice(0, -1);
+		const m = measure(stem);
+		if (m > 1 || (m === 1 && !endsWithCvc(stem))) w = stem;
+	}
+	if (w.endsWith('ll') && measure(w) > 1) w = w.slice(0, -1);
+	return w;
+}
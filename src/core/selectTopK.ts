@@ -0,0 +1,40 @@
+/**
+ * 选出按 compare 排序后的前 k 个元素并按顺序返回
+ * 使用容量为 k 的堆，只对保留的元素排序，k 远小于元素数时避免对全部元素排序
+ * @param items 元素，只遍历一次
+ * @param k 保留的数量，为 Infinity 时对全部元素排序
+ * @param compare 比较函数，小于 0 表示 a 排在 b 之前
+ */
+export function selectTopK<T>(items: Iterable<T>, k: number, compare: (a: T, b: T) => number): T[] {
+	if (k <= 0) return [];
+	if (!Number.isFinite(k)) return Array.from(items).sort(compare);
+
+	// 大顶堆：堆顶为已保留的元素中排在最后的一个
+	const heap: T[] = [];
+	const swap = (i: number, j: number) => [heap[i], heap[j]] = [heap[j], heap[i]];
+	for (const item of items) {
+		if (heap.length < k) {
+			heap.push(item);
+			let i = heap.length - 1;
+			while (i > 0) {
+				const parent = (i - 1) >> 1;
+				if (compare(heap[i], heap[parent]) <= 0) break;
+				swap(i, parent);
+				i = parent;
+			}
+		} else if (compare(item, heap[0]) < 0) {
+			heap[0] = item;
+			let i = 0;
+			while (true) {
+				const left = i * 2 + 1, right = left + 1;
+				let largest = i;
+				if (left < heap.length && compare(heap[left], heap[largest]) > 0) largest = left;
+				if (right < heap.length && compare(heap[right], heap[largest]) > 0) largest = right;
+				if (largest === i) break;
+				swap(i, largest);
+				i = largest;
+			}
+		}
+	}
+	return heap.sort(compare);
+}
@@ -1,5 +1,5 @@
 import {SearchEngine} from '../core';
-import {IDocument, IDocumentBase, ISearchEngineOption} from '../type';
+import {DocumentId, IDocumentBase, IExplanation, IHighlight, IHighlightOptions, IndexableDocument, IQuery, IResult, ISearchEngineOption, ISearchOptions, ISearchResponse, ISpellSuggestion, ITermSuggestion} from '../type';
 import {BrowserStorage} from "../browser";
 import {NodeStorage} from "../node";
 
@@ -13,9 +13,10 @@ const DefaultPath = 'simple-search';
 /**
  * 快速使用封装
  * 提供单例模式和默认配置
+ * 各方法的 TId 为文档ID的类型，需与配置的 idType 一致
  */
 export class SimpleSearch {
-	static #instance: SearchEngine | null = null;
+	static #instance: SearchEngine<DocumentId> | null = null;
 
 	static #config?: ISearchEngineOption;
 
@@ -40,7 +41,7 @@ export class SimpleSearch {
 	static configure(config: Partial<ISearchEngineOption>) {
 		this.#config = {...this.config, ...config};
         if(this.#instance) {
-            this.#instance = new SearchEngine(this.config);
+            this.#instance = new SearchEngine<DocumentId>(this.config);
         }
 	}
 
@@ -52,28 +53,102 @@ export class SimpleSearch {
 		return this.#getInstance().endBatch();
 	}
 
-	static async addDocument(doc: IDocument) {
-		return this.#getInstance().addDocument(doc);
+	static async addDocument<TId extends DocumentId = number>(doc: IndexableDocument<TId>) {
+		return this.#getInstance<TId>().addDocument(doc);
 	}
 
-	static async addDocumentIfMissing(doc: IDocument) {
-		return this.#getInstance().addDocumentIfMissing(doc);
+	static async addDocumentIfMissing<TId extends DocumentId = number>(doc: IndexableDocument<TId>) {
+		return this.#getInstance<TId>().addDocumentIfMissing(doc);
 	}
 
-	static async addDocuments(docs: IDocument[]) {
-		return this.#getInstance().addDocuments(docs);
+	static async addDocuments<TId extends DocumentId = number>(docs: IndexableDocument<TId>[]) {
+		return this.#getInstance<TId>().addDocuments(docs);
 	}
 
-	static async addDocumentsIfMissing(docs: IDocument[]) {
-		return this.#getInstance().addDocumentsIfMissing(docs);
+	static async addDocumentsIfMissing<TId extends DocumentId = number>(docs: IndexableDocument<TId>[]) {
+		return this.#getInstance<TId>().addDocumentsIfMissing(docs);
 	}
 
-	static async search(query: IDocumentBase | string, limit?: number) {
-		return this.#getInstance().search(query, limit);
+	static async updateDocument<TId extends DocumentId = number>(doc: IndexableDocument<TId>) {
+		return this.#getInstance<TId>().updateDocument(doc);
 	}
 
-	static async removeDocument(id: number) {
-		return this.#getInstance().removeDocument(id);
+	static async upsertDocuments<TId extends DocumentId = number>(docs: IndexableDocument<TId>[]) {
+		return this.#getInstance<TId>().upsertDocuments(docs);
+	}
+
+	static async search<TId extends DocumentId = number>(query: IDocumentBase | IQuery | string, limit?: number): Promise<IResult<TId>[]>;
+	static async search<TId extends DocumentId = number>(query: IDocumentBase | IQuery | string, options: ISearchOptions): Promise<ISearchResponse<TId>>;
+	static async search<TId extends DocumentId = number>(query: IDocumentBase | IQuery | string, options?: number | ISearchOptions): Promise<IResult<TId>[] | ISearchResponse<TId>> {
+		const instance = this.#getInstance<TId>();
+		return typeof options === 'object' ? instance.search(query, options) : instance.search(query, options);
+	}
+
+	/**
+	 * 解释文档在查询中的得分
+	 * @param query 查询文本（支持查询语法）、带上下文的查询对象，或结构化查询
+	 * @param id 文档ID
+	 * @param options 与搜索时一致的 fuzzy 与 filter
+	 */
+	static async explain<TId extends DocumentId = number>(query: IDocumentBase | IQuery | string, id: TId, options?: Pick<ISearchOptions, 'fuzzy' | 'filter'>): Promise<IExplanation<TId> | null> {
+		return this.#getInstance<TId>().explain(query, id, options);
+	}
+
+	/**
+	 * 查找与已有文档相似的文档，结果不包含源文档
+	 * @param id 源文档ID
+	 * @param limit 返回的最大数量，默认为10
+	 */
+	static async similar<TId extends DocumentId = number>(id: TId, limit?: number): Promise<IResult<TId>[]> {
+		return this.#getInstance<TId>().similar(id, limit);
+	}
+
+	/**
+	 * 查询补全：返回以 prefix 开头的词，按包含该词的文档数从多到少排列
+	 * @param prefix 前缀
+	 * @param limit 返回的最大数量，默认为10
+	 */
+	static async suggest(prefix: string, limit?: number): Promise<ITermSuggestion[]> {
+		return this.#getInstance().suggest(prefix, limit);
+	}
+
+	/**
+	 * 拼写纠正：为索引中不存在的查询词查找编辑距离相近的词，返回替换后的查询
+	 * @param query 查询文本
+	 * @param limit 返回的最大数量，默认为3
+	 */
+	static async spellcheck(query: string, limit?: number): Promise<ISpellSuggestion[]> {
+		return this.#getInstance().spellcheck(query, limit);
+	}
+
+	/**
+	 * 读取存储的原始文档
+	 * 需要开启 storeDocuments，文档不存在、已删除或写入时未开启存储时返回 null
+	 * @param id 文档ID
+	 */
+	static async getDocument<TId extends DocumentId = number>(id: TId): Promise<IndexableDocument<TId> | null> {
+		return this.#getInstance<TId>().getDocument(id);
+	}
+
+	/**
+	 * 高亮搜索结果中的命中词，并选取包含命中词最多的片段
+	 * @param hit 搜索结果，使用其中的文档ID与命中词
+	 * @param options 高亮选项，未提供 text 时读取存储的原始文档
+	 */
+	static async highlight<TId extends DocumentId = number>(hit: Pick<IResult<TId>, 'id' | 'tokens'>, options?: IHighlightOptions): Promise<IHighlight | null> {
+		return this.#getInstance<TId>().highlight(hit, options);
+	}
+
+	static async removeDocument<TId extends DocumentId = number>(id: TId) {
+		return this.#getInstance<TId>().removeDocument(id);
+	}
+
+	static async optimize(maxSegments?: number) {
+		return this.#getInstance().optimize(maxSegments);
+	}
+
+	static async compact() {
+		return this.#getInstance().compact();
 	}
 
 	static async clearAll() {
@@ -89,14 +164,17 @@ export class SimpleSearch {
 	 * @param id 文档ID
 	 * @returns 文档是否曾经添加过的布尔值
 	 */
-	static async hasDocument(id: number): Promise<boolean> {
-		return this.#getInstance().hasDocument(id);
+	static async hasDocument<TId extends DocumentId = number>(id: TId): Promise<boolean> {
+		return this.#getInstance<TId>().hasDocument(id);
 	}
 
-	static #getInstance(): SearchEngine {
+	/**
+	 * 获取单例，按调用方指定的文档ID类型使用
+	 */
+	static #getInstance<TId extends DocumentId = number>(): SearchEngine<TId> {
 		if (!this.#instance) {
-			this.#instance = new SearchEngine(this.config);
+			this.#instance = new SearchEngine<DocumentId>(this.config);
 		}
-		return this.#instance!;
+		return this.#instance as unknown as SearchEngine<TId>;
 	}
 }
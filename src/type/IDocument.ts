@@ -1,3 +1,19 @@
+import {AttributeValue} from "./IFilter";
+
+/**
+ * 文档ID：32 位无符号整数、安全整数、64 位整数 (bigint) 或字符串（如 UUID），由 idType 配置决定
+ */
+export type DocumentId = number | bigint | string;
+
+/**
+ * 文档ID类型
+ * - 'uint32': 0 ~ 2^32-1 的整数，直接作为内部ID（默认）
+ * - 'number': 任意安全整数，包括超过 2^32 的值
+ * - 'bigint': 64 位整数（-2^63 ~ 2^64-1），以 bigint 表示
+ * - 'string': 字符串，如 UUID
+ */
+export type DocumentIdType = 'uint32' | 'number' | 'bigint' | 'string';
+
 /**
  * 文档基础接口
  */
@@ -8,6 +24,31 @@ export interface IDocumentBase {
 /**
  * 文档接口（包含ID）
  */
-export interface IDocument extends IDocumentBase {
-    id: number;
+export interface IDocument<TId extends DocumentId = number> extends IDocumentBase {
+    id: TId;
+    /**
+     * 用于过滤与分面统计的属性，只保存 filterableAttributes 中声明的属性，不参与分词
+     * 属性值为数组时为多值属性（如标签），任一取值满足过滤条件即匹配
+     */
+    attributes?: Record<string, AttributeValue | AttributeValue[]>;
 }
+
+/**
+ * 多字段文档接口
+ * 每个字段单独分词，字段值为数组时每个元素单独分词（如标签）
+ * 只有 text 字段的多字段文档与普通文档等价
+ */
+export interface IFieldDocument<TId extends DocumentId = number> {
+    id: TId;
+    fields: Record<string, string | string[]>;
+    /**
+     * 用于过滤与分面统计的属性，只保存 filterableAttributes 中声明的属性，不参与分词
+     * 属性值为数组时为多值属性（如标签），任一取值满足过滤条件即匹配
+     */
+    attributes?: Record<string, AttributeValue | AttributeValue[]>;
+}
+
+/**
+ * 可被索引的文档
+ */
+export type IndexableDocument<TId extends DocumentId = number> = IDocument<TId> | IFieldDocument<TId>;
@@ -0,0 +1,9 @@
+/**
+ * 文档最新版本在中间缓存中的位置
+ * 文档被更新后，只有覆盖该位置的索引段中的 postings 有效
+ * 值为 -1 表示最新版本不包含该类型的 token
+ */
+export interface IDocumentVersion {
+    word: number;
+    char: number;
+}
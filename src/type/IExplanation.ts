@@ -0,0 +1,59 @@
+import {IndexType} from './ISearchEngineOption';
+import {DocumentId} from './IDocument';
+
+/**
+ * 命中词在单个字段中的得分
+ */
+export interface IFieldExplanation {
+	field: string;
+	/**
+	 * 词在该字段中出现的次数
+	 */
+	frequency: number;
+	/**
+	 * 字段权重（fields 配置中的 boost）
+	 */
+	boost: number;
+	/**
+	 * 字段权重乘以评分函数的结果，再乘以查询对该词的权重（weight）
+	 */
+	score: number;
+}
+
+/**
+ * 命中词的得分明细
+ */
+export interface ITermExplanation {
+	term: string;
+	/**
+	 * 词的类型：word 为多字符词，char 为单字符
+	 */
+	type: IndexType;
+	/**
+	 * 倒排记录所在的索引段文件
+	 */
+	segment: string;
+	/**
+	 * 包含该词的文档数
+	 */
+	docFrequency: number;
+	/**
+	 * 查询对该词的权重：模糊匹配为 1 / (1 + 编辑距离)，同义词再乘以 synonymWeight，其余为 1
+	 */
+	weight: number;
+	/**
+	 * 各字段得分之和
+	 */
+	score: number;
+	fields: IFieldExplanation[];
+}
+
+/**
+ * 文档得分的解释，得分为各命中词得分之和
+ * 同一个词被查询的不同部分命中时（如 should 子句与短语）分别列出
+ */
+export interface IExplanation<TId extends DocumentId = number> {
+	id: TId;
+	score: number;
+	terms: ITermExplanation[];
+}
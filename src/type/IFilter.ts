@@ -0,0 +1,40 @@
+/**
+ * 可过滤属性的类型
+ * - 'string': 按字符串精确匹配，其他类型的值转为字符串（如 true → 'true'）
+ * - 'number': 数值，支持范围查询
+ * - 'date': 日期，Date、时间戳（毫秒）或可被 Date.parse 解析的字符串，按时间戳比较
+ */
+export type AttributeType = 'string' | 'number' | 'date';
+
+/**
+ * 文档的属性值
+ */
+export type AttributeValue = string | number | boolean | Date;
+
+/**
+ * 取值之一匹配
+ */
+export interface IInCondition {
+	in: AttributeValue[];
+}
+
+/**
+ * 范围匹配，只能用于 number 与 date 属性，未设置的边界不限制
+ */
+export interface IRangeCondition {
+	gt?: number | Date | string;
+	gte?: number | Date | string;
+	lt?: number | Date | string;
+	lte?: number | Date | string;
+}
+
+/**
+ * 单个属性的过滤条件，直接给出值时按相等匹配
+ */
+export type FilterCondition = AttributeValue | IInCondition | IRangeCondition;
+
+/**
+ * 搜索过滤条件，属性名到条件的映射，所有条件同时满足时匹配
+ * 如 {status: 'published', category: {in: ['news', 'blog']}, createdAt: {gte: new Date('2024-01-01')}}
+ */
+export type Filter = Record<string, FilterCondition>;
@@ -0,0 +1,71 @@
+/**
+ * 高亮选项
+ */
+export interface IHighlightOptions {
+	/**
+	 * 要高亮的文本，未设置时读取存储的原始文档（需要开启 storeDocuments）
+	 */
+	text?: string;
+	/**
+	 * 读取存储文档时使用的字段，默认为 text；数组字段的各元素以换行连接
+	 * 同时决定使用哪个字段配置的分词器
+	 */
+	field?: string;
+	/**
+	 * 插入在命中词之前的标记，默认为 <mark>
+	 */
+	preTag?: string;
+	/**
+	 * 插入在命中词之后的标记，默认为 </mark>
+	 */
+	postTag?: string;
+	/**
+	 * 每个片段的最大长度（字符数，不含标记），默认为 160
+	 */
+	snippetLength?: number;
+	/**
+	 * 最多返回的片段数，默认为 1
+	 */
+	maxSnippets?: number;
+	/**
+	 * 片段被截断时在前后添加的省略符，默认为 …
+	 */
+	ellipsis?: string;
+}
+
+/**
+ * 命中词在文本中的位置
+ */
+export interface IHighlightMatch {
+	/**
+	 * 命中的词（分词结果）
+	 */
+	token: string;
+	/**
+	 * 在文本中的起始位置（UTF-16 码元）
+	 */
+	start: number;
+	/**
+	 * 在文本中的结束位置（不含）
+	 */
+	end: number;
+}
+
+/**
+ * 高亮结果
+ */
+export interface IHighlight {
+	/**
+	 * 被高亮的文本
+	 */
+	text: string;
+	/**
+	 * 命中词的位置，按出现顺序排列
+	 */
+	matches: IHighlightMatch[];
+	/**
+	 * 包含命中词最多的文本片段，命中词已用 preTag / postTag 包裹，按在文本中的顺序排列
+	 * 文本没有命中词时返回文本开头的一个片段
+	 */
+	snippets: string[];
+}
@@ -6,4 +6,13 @@ import { ISegmentMeta } from './ISegmentMeta';
 export interface IIndexMeta {
     wordSegments: ISegmentMeta[];
     charSegments: ISegmentMeta[];
+    /**
+     * 字段名列表，下标为字段ID；未记录时只有 text 字段
+     */
+    fields?: string[];
+    /**
+     * compact 完成的次数，大于 0 时中间缓存、文档版本与文档存储的文件名带有该序号（如 word_cache_2.bin）
+     * compact 将数据写入下一序号的文件，保存元数据后才删除旧文件
+     */
+    generation?: number;
 }
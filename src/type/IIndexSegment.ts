@@ -3,6 +3,7 @@
  */
 import { ITokenizedDoc } from './ITokenizedDoc';
 import { IHashAlgorithm32, IHashAlgorithm64 } from './IHashAlgorithm';
+import { IPosting } from './IPosting';
 
 export interface IIndexSegment {
     /**
@@ -36,4 +37,33 @@ export interface IIndexSegment {
      * @returns 匹配的文档ID数组
      */
     search(term: string): number[];
+
+    /**
+     * 获取词的倒排记录数，只读取字典项，不读取倒排记录
+     * @param term 搜索词
+     * @returns 倒排记录数（含已删除文档与旧版本），词不存在时为 0
+     */
+    postingCount(term: string): number;
+
+    /**
+     * 搜索索引并返回倒排记录（含词频与位置信息）
+     * @param term 搜索词
+     * @returns 匹配的倒排记录数组
+     */
+    searchPostings(term: string): IPosting[];
+
+    /**
+     * 列出以 prefix 开头的词
+     * @param prefix 前缀，为空时返回全部词
+     * @returns 按顺序排列的词
+     */
+    listTerms(prefix: string): string[];
+
+    /**
+     * 查找与 term 的编辑距离（Damerau-Levenshtein）不超过 maxDistance 的词
+     * @param term 查询词
+     * @param maxDistance 最大编辑距离
+     * @returns 匹配的词到编辑距离的映射
+     */
+    fuzzyTerms(term: string, maxDistance: number): Map<string, number>;
 }
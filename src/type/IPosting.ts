@@ -0,0 +1,19 @@
+/**
+ * 倒排记录
+ */
+export interface IPosting {
+    id: number;
+    /**
+     * 词在文档中出现的次数（旧版本索引段中不存在）
+     */
+    frequency?: number;
+    /**
+     * 词在文档中出现的位置（仅当索引段包含位置信息时存在）
+     */
+    positions?: number[];
+    /**
+     * 字段ID到词在该字段中出现次数的映射，按字段在文档中的顺序排列
+     * （仅当索引段包含字段信息时存在，否则词全部属于 text 字段）
+     */
+    fields?: Map<number, number>;
+}
@@ -0,0 +1,70 @@
+/**
+ * 词查询
+ * 文本经过搜索分词器分词，任一 token 命中即匹配
+ */
+export interface ITermQuery {
+	term: string;
+	/**
+	 * 限定匹配的字段，未设置时匹配所有字段
+	 */
+	field?: string;
+	/**
+	 * 模糊匹配的最大编辑距离，未设置时使用搜索选项中的 fuzzy
+	 */
+	fuzzy?: 0 | 1 | 2;
+}
+
+/**
+ * 短语查询
+ * 文档必须包含短语中的所有词；未设置 slop 时要求按顺序紧邻出现，
+ * 设置 slop 时允许各词偏离其在短语中的位置，偏离的总距离不超过 slop，顺序颠倒同样计入（两个词互换需要 slop 为 2）
+ */
+export interface IPhraseQuery {
+	phrase: string;
+	/**
+	 * 限定匹配的字段，未设置时匹配所有字段
+	 */
+	field?: string;
+	slop?: number;
+}
+
+/**
+ * 前缀查询
+ * 匹配以 prefix 开头的所有词，如 docu 匹配 document、documentation
+ */
+export interface IPrefixQuery {
+	prefix: string;
+	/**
+	 * 限定匹配的字段，未设置时匹配所有字段
+	 */
+	field?: string;
+}
+
+/**
+ * 通配符查询
+ * * 匹配任意个字符，? 匹配单个字符，如 colo?r、doc*ion
+ */
+export interface IWildcardQuery {
+	wildcard: string;
+	/**
+	 * 限定匹配的字段，未设置时匹配所有字段
+	 */
+	field?: string;
+}
+
+/**
+ * 布尔查询
+ * - must: 必须全部匹配 (AND / +)
+ * - should: 没有 must 子句时至少匹配一个 (OR)，否则只参与评分
+ * - mustNot: 不能匹配 (NOT / -)
+ */
+export interface IBooleanQuery {
+	must?: IQuery[];
+	should?: IQuery[];
+	mustNot?: IQuery[];
+}
+
+/**
+ * 结构化查询
+ */
+export type IQuery = ITermQuery | IPhraseQuery | IPrefixQuery | IWildcardQuery | IBooleanQuery;
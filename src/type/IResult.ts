@@ -1,8 +1,37 @@
+import {DocumentId, IndexableDocument} from "./IDocument";
+
 /**
  * 搜索结果接口
  */
-export interface IResult {
-    id: number;
+export interface IResult<TId extends DocumentId = number> {
+    id: TId;
     score: number;
     tokens: string[];
+    /**
+     * 每个命中词对得分的贡献
+     */
+    termScores: Record<string, number>;
+    /**
+     * 存储的原始文档，仅在搜索选项 includeDocument 为 true 且文档已存储时返回
+     */
+    document?: IndexableDocument<TId>;
+}
+
+/**
+ * 使用搜索选项时的搜索结果
+ */
+export interface ISearchResponse<TId extends DocumentId = number> {
+    hits: IResult<TId>[];
+    /**
+     * 匹配的文档总数，不受 offset、limit 与 searchAfter 影响
+     */
+    total: number;
+    /**
+     * 翻页游标，当前页之后还有结果时返回，作为下一次搜索的 searchAfter
+     */
+    cursor?: string;
+    /**
+     * 分面统计，属性名到 取值 → 文档数 的映射，按文档数从多到少排列，仅在搜索选项设置了 facets 时返回
+     */
+    facets?: Record<string, Record<string, number>>;
 }
@@ -0,0 +1,52 @@
+import {IndexType} from './ISearchEngineOption';
+
+/**
+ * 查询词在当前索引中的统计信息
+ */
+export interface ITermStats {
+	/**
+	 * 词的类型：word 为多字符词，char 为单字符
+	 */
+	type: IndexType;
+	/**
+	 * 包含该词的文档数（不含已删除文档与旧版本）
+	 */
+	docFrequency: number;
+	/**
+	 * 未删除的文档总数
+	 */
+	docCount: number;
+	/**
+	 * 文档平均长度（token 数）
+	 */
+	avgDocLength: number;
+}
+
+/**
+ * 查询词在某个文档中的匹配信息
+ */
+export interface ITermMatch {
+	id: number;
+	/**
+	 * 命中的字段，多字段文档中每个字段分别评分
+	 */
+	field: string;
+	/**
+	 * 词在该字段中出现的次数，旧版本索引段中缺少词频时为 1
+	 */
+	frequency: number;
+	/**
+	 * 文档长度（token 数），未记录时为平均长度
+	 */
+	docLength: number;
+	/**
+	 * 词在该字段中出现的位置（仅当索引段包含位置信息时存在）
+	 */
+	positions?: number[];
+}
+
+/**
+ * 评分函数，返回查询词对文档某个字段得分的贡献
+ * 文档得分为各命中词在各字段中的贡献乘以字段权重之和
+ */
+export type Scorer = (term: string, stats: ITermStats, match: ITermMatch) => number;
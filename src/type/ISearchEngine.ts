@@ -1,5 +1,10 @@
-import {IDocument, IDocumentBase} from "./IDocument";
-import {IResult} from "./IResult";
+import {DocumentId, IDocumentBase, IndexableDocument} from "./IDocument";
+import {IResult, ISearchResponse} from "./IResult";
+import {IQuery} from "./IQuery";
+import {ISearchOptions} from "./ISearchOptions";
+import {IHighlight, IHighlightOptions} from "./IHighlight";
+import {ISpellSuggestion, ITermSuggestion} from "./ISuggestion";
+import {IExplanation} from "./IExplanation";
 
 export interface ISearchEngineStatus {
 	wordSegments: number
@@ -7,13 +12,29 @@ export interface ISearchEngineStatus {
 	deleted: number
 	wordCacheSize: number
 	charCacheSize: number
+	documentStoreSize: number
 	inBatch: boolean
 }
 
+/**
+ * 索引压缩结果
+ */
+export interface ICompactResult {
+	/**
+	 * 被物理清除的已删除文档数量
+	 */
+	purgedDocuments: number
+	/**
+	 * 回收的存储字节数
+	 */
+	reclaimedBytes: number
+}
+
 /**
  * 核心搜索引擎
+ * @typeParam TId 文档ID的类型，需与 idType 配置一致
  */
-export interface ISearchEngine {
+export interface ISearchEngine<TId extends DocumentId = number> {
 	/**
 	 * 开启批处理
 	 * 批处理期间 addDocuments 只写入缓存，不触发索引段构建
@@ -26,25 +47,113 @@ export interface ISearchEngine {
 	 */
 	endBatch(): Promise<void>;
 
-	addDocument(doc: IDocument): Promise<void>;
+	addDocument(doc: IndexableDocument<TId>): Promise<void>;
 
 	/**
 	 * 添加单个文档，如果文档ID已存在则跳过
 	 * 用于在批量添加中途出错后的恢复添加行为，也可直接用于单个文档添加
 	 */
-	addDocumentIfMissing(doc: IDocument): Promise<void>;
+	addDocumentIfMissing(doc: IndexableDocument<TId>): Promise<void>;
 
 	/**
 	 * 添加多个文档，跳过已存在的文档ID
 	 * 用于在批量添加中途出错后的恢复添加行为，也可直接用于批量添加
 	 */
-	addDocumentsIfMissing(docs: IDocument[]): Promise<void>;
+	addDocumentsIfMissing(docs: IndexableDocument<TId>[]): Promise<void>;
+
+	addDocuments(docs: IndexableDocument<TId>[]): Promise<void>;
 
-	addDocuments(docs: IDocument[]): Promise<void>;
+	/**
+	 * 更新单个文档，文档不存在时直接添加
+	 * 已删除的文档ID也可以通过此方法重新添加
+	 */
+	updateDocument(doc: IndexableDocument<TId>): Promise<void>;
 
-	search(query: IDocumentBase|string, limit?: number): Promise<IResult[]>;
+	/**
+	 * 添加或更新多个文档
+	 * 已存在（包括已删除）的文档会写入新版本，搜索时只匹配最新版本的 token
+	 * 同一批次中重复的ID只保留最后一个
+	 */
+	upsertDocuments(docs: IndexableDocument<TId>[]): Promise<void>;
+
+	/**
+	 * 搜索文档
+	 * @param query 查询文本（支持查询语法）、带上下文的查询对象，或结构化查询
+	 * @param limit 返回结果的最大数量
+	 */
+	search(query: IDocumentBase | IQuery | string, limit?: number): Promise<IResult<TId>[]>;
+
+	/**
+	 * 按搜索选项搜索文档
+	 * @param query 查询文本（支持查询语法）、带上下文的查询对象，或结构化查询
+	 * @param options 搜索选项
+	 */
+	search(query: IDocumentBase | IQuery | string, options: ISearchOptions): Promise<ISearchResponse<TId>>;
+
+	/**
+	 * 解释文档在查询中的得分：列出每个命中词的类型、所在索引段、文档频率、权重与各字段得分
+	 * @param query 查询文本（支持查询语法）、带上下文的查询对象，或结构化查询
+	 * @param id 文档ID
+	 * @param options 与搜索时一致的 fuzzy 与 filter
+	 * @returns 得分解释，文档不匹配查询或过滤条件时返回 null
+	 */
+	explain(query: IDocumentBase | IQuery | string, id: TId, options?: Pick<ISearchOptions, 'fuzzy' | 'filter'>): Promise<IExplanation<TId> | null>;
 
-	removeDocument(id: number): Promise<void>;
+	/**
+	 * 查找与已有文档相似的文档
+	 * 从中间缓存读取源文档索引时的 token，按 tf-idf 选出最有区分度的词，以其权重组成查询，结果不包含源文档
+	 * @param id 源文档ID
+	 * @param limit 返回的最大数量，默认为10
+	 * @returns 相似文档，源文档不存在或已删除时返回空数组
+	 */
+	similar(id: TId, limit?: number): Promise<IResult<TId>[]>;
+
+	/**
+	 * 查询补全：返回以 prefix 开头的词，按包含该词的文档数从多到少排列
+	 * 前缀按搜索分词器与分析器规范化，只统计未删除文档的最新版本
+	 * @param prefix 前缀
+	 * @param limit 返回的最大数量，默认为10
+	 */
+	suggest(prefix: string, limit?: number): Promise<ITermSuggestion[]>;
+
+	/**
+	 * 拼写纠正：为索引中不存在的查询词查找编辑距离相近的词，返回替换后的查询
+	 * 按总编辑距离从小到大、替换词的文档数从多到少排列，没有可纠正的词时返回空数组
+	 * @param query 查询文本
+	 * @param limit 返回的最大数量，默认为3
+	 */
+	spellcheck(query: string, limit?: number): Promise<ISpellSuggestion[]>;
+
+	/**
+	 * 读取存储的原始文档
+	 * 需要开启 storeDocuments，文档不存在、已删除或写入时未开启存储时返回 null
+	 * @param id 文档ID
+	 */
+	getDocument(id: TId): Promise<IndexableDocument<TId> | null>;
+
+	/**
+	 * 高亮搜索结果中的命中词，并选取包含命中词最多的片段
+	 * 使用索引时的分词器定位命中词，位置与实际匹配的 token 一致
+	 * @param hit 搜索结果，使用其中的文档ID与命中词
+	 * @param options 高亮选项，未提供 text 时读取存储的原始文档
+	 * @returns 高亮结果，没有可高亮的文本时返回 null
+	 */
+	highlight(hit: Pick<IResult<TId>, 'id' | 'tokens'>, options?: IHighlightOptions): Promise<IHighlight | null>;
+
+	removeDocument(id: TId): Promise<void>;
+
+	/**
+	 * 优化索引：合并相邻的索引段，使每种类型的段数不超过 maxSegments
+	 * @param maxSegments 每种类型保留的最大段数，默认为1
+	 */
+	optimize(maxSegments?: number): Promise<void>;
+
+	/**
+	 * 压缩索引
+	 * 从中间缓存和索引段中物理清除已删除文档及被更新覆盖的旧版本，
+	 * 完成后已删除的文档ID不再被记录，可以重新添加；索引段的划分保持不变，只移除不再包含文档的段
+	 */
+	compact(): Promise<ICompactResult>;
 
 	clearAll(): Promise<void>;
 
@@ -55,7 +164,7 @@ export interface ISearchEngine {
 	 * @param id 文档ID
 	 * @returns 文档是否曾经添加过的布尔值
 	 */
-	hasDocument(id: number): Promise<boolean>;
+	hasDocument(id: TId): Promise<boolean>;
 
 
 }
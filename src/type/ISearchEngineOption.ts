@@ -9,9 +9,67 @@ export type IndexType = 'word' | 'char';
 import {IDocument, IDocumentBase} from './IDocument';
 import {IStorage} from './IStorage';
 import {IHashAlgorithm32, IHashAlgorithm64} from './IHashAlgorithm';
+import {Scorer} from './IScorer';
+import {IToken} from './IToken';
+import {AttributeType} from './IFilter';
+import {DocumentIdType} from './IDocument';
 
-export type IndexingTokenizer = <T extends IDocument = IDocument>(doc: T) => string[];
-export type SearchTokenizer = <T extends IDocumentBase = IDocumentBase>(doc: T) => string[];
+/**
+ * 分词器返回字符串数组，或带字符偏移与序号的 IToken 数组
+ */
+export type IndexingTokenizer = <T extends IDocument = IDocument>(doc: T) => string[] | IToken[];
+export type SearchTokenizer = <T extends IDocumentBase = IDocumentBase>(doc: T) => string[] | IToken[];
+/**
+ * 字段分词器，索引时传入文档，限定字段的查询未设置 searchTokenizer 时传入查询对象，因此只保证包含 text
+ */
+export type FieldTokenizer = SearchTokenizer;
+
+/**
+ * 分析器：对分词结果中的每个词进行处理（规范化、词干提取等），返回 null 或空字符串时移除该词
+ */
+export type TokenFilter = (term: string) => string | null;
+
+/**
+ * 同义词规则
+ * - 字符串数组: 等价词组，查询组内任一词时同时查询其余各词
+ * - {from, to}: 单向同义词，查询 from 时同时查询 to 中的各词，反之不扩展
+ * 词可以包含多个单词（如 "portable computer"），此时按短语查询
+ */
+export type SynonymRule = string[] | { from: string; to: string[] };
+
+/**
+ * CJK n-gram 分词器配置
+ */
+export interface INgramTokenizerOption {
+	/**
+	 * 每组的字符数，默认为 2（bigram）
+	 */
+	n?: number;
+	/**
+	 * 是否同时输出单字，默认为 true；单字进入字索引，使单字查询也能命中
+	 */
+	unigrams?: boolean;
+}
+
+/**
+ * 字段配置
+ */
+export interface IFieldOption {
+	/**
+	 * 字段权重，命中该字段的得分乘以此值，默认为1
+	 */
+	boost?: number;
+	/**
+	 * 该字段索引时使用的分词器，默认使用 indexingTokenizer
+	 * 调用时传入的文档 text 为字段值
+	 */
+	indexingTokenizer?: FieldTokenizer;
+	/**
+	 * 限定该字段的查询（如 title:invoice）使用的分词器，默认使用该字段的 indexingTokenizer，
+	 * 未设置时使用 searchTokenizer
+	 */
+	searchTokenizer?: SearchTokenizer;
+}
 
 export interface ISearchEngineOption {
 	// /**
@@ -32,21 +90,149 @@ export interface ISearchEngineOption {
 	/**
 	 * 索引时使用的分词器 (算法核心配置)
 	 * - 作用: 将文档文本转换为索引用的token序列
-	 * - 算法: 自定义实现的分词逻辑，需满足返回字符串数组的格式要求
+	 * - 算法: 自定义实现的分词逻辑，返回字符串数组，或带字符偏移与序号的 IToken 数组
 	 * - 建议: 针对不同语言(中文/英文/日文等)使用专门的分词实现
 	 * - 影响: 直接决定索引的粒度和搜索的准确性
 	 */
 	indexingTokenizer?: IndexingTokenizer;
 
+	/**
+	 * 内置分词器 (算法核心配置)
+	 * - 'segmenter': 使用 Intl.Segmenter 按词切分，环境不支持时退化为按连续的字母、数字与汉字切分
+	 * - 'ngram': 中日韩文字按 bigram 切分，其余文字按单词切分，不依赖 ICU 数据
+	 * - INgramTokenizerOption: 使用指定配置的 CJK n-gram 分词器
+	 * - 默认值: 'segmenter'
+	 * - 影响: 设置 indexingTokenizer 时忽略此配置
+	 */
+	tokenizer?: 'segmenter' | 'ngram' | INgramTokenizerOption;
+
 	/**
 	 * 搜索时使用的分词器 (算法核心配置)
 	 * - 作用: 将查询文本转换为搜索用的token序列
-	 * - 算法: 自定义实现的分词逻辑，需满足返回字符串数组的格式要求
+	 * - 算法: 自定义实现的分词逻辑，返回字符串数组，或带字符偏移与序号的 IToken 数组
 	 * - 建议: 与indexingTokenizer保持一致的分词策略以确保搜索准确性
 	 * - 影响: 直接决定搜索匹配的范围和结果的相关性
 	 */
 	searchTokenizer?: SearchTokenizer;
 
+	/**
+	 * 索引时使用的分析器 (算法核心配置)
+	 * - 作用: 分词后依次对每个词进行处理，如 NFKC 规范化、去除变音符号、停用词、词干提取
+	 * - 内置: nfkcFilter、lowercaseFilter、diacriticFilter、porterStemFilter、createStopwordFilter(lang)，
+	 *   或使用 createEnglishAnalyzers() 组合
+	 * - 默认值: undefined (不处理)
+	 * - 影响: 修改后需要重建索引；被移除的词保留其序号，短语查询仍按原位置匹配
+	 */
+	indexingAnalyzers?: TokenFilter[];
+
+	/**
+	 * 搜索时使用的分析器 (算法核心配置)
+	 * - 作用: 对查询分词结果中的每个词进行处理
+	 * - 默认值: undefined (与 indexingAnalyzers 相同)
+	 * - 建议: 与 indexingAnalyzers 保持一致，以确保查询词与索引中的词形相同
+	 */
+	searchAnalyzers?: TokenFilter[];
+
+	/**
+	 * 同义词 - 查询扩展配置
+	 * - 作用: 查询时将词查询中出现的同义词扩展为其余同义词，如 [['laptop', 'notebook', 'portable computer']]
+	 * - 算法: 规则中的词经过搜索分词器与分析器处理后，与查询的分词结果按连续词序列匹配
+	 * - 默认值: undefined (不扩展)
+	 * - 影响: 只在搜索时生效，修改后无需重建索引；短语、前缀与通配符查询不扩展
+	 */
+	synonyms?: SynonymRule[];
+
+	/**
+	 * 同义词得分权重 - 查询扩展配置
+	 * - 作用: 同义词命中的得分乘以此值，使其略低于原词命中
+	 * - 默认值: 0.8
+	 */
+	synonymWeight?: number;
+
+	/**
+	 * 字段配置 - 多字段文档配置
+	 * - 作用: 为多字段文档（{id, fields: {title, body, tags}}）的各字段设置权重与分词器；
+	 *   查询语法中可使用 字段名:词 限定字段，如 title:invoice、title:"new york"、tags:(a OR b)
+	 * - 默认值: undefined (所有字段权重为1，使用全局分词器)
+	 * - 影响: 未配置的字段也会被索引，但只有配置过或已出现在索引中的字段名能在查询语法中使用
+	 */
+	fields?: Record<string, IFieldOption>;
+
+	/**
+	 * 是否存储词的位置信息 - 位置索引配置
+	 * - 作用: 在倒排记录旁存储每个词在文档中出现的位置，用于短语查询("new york")和邻近查询("fast car"~3)
+	 * - 默认值: false
+	 * - 影响: 增加索引大小；未存储位置信息的索引段中，短语查询退化为要求所有词同时出现
+	 */
+	storePositions?: boolean;
+
+	/**
+	 * 是否存储原始文档 - 文档存储配置
+	 * - 作用: 将添加的文档压缩后按块保存在存储目录中，可通过 getDocument 读取，或在搜索选项中设置 includeDocument 随结果返回
+	 * - 默认值: false
+	 * - 影响: 文档存储与倒排索引分开存放，不计入索引大小；已删除的文档不再返回，compact 时物理清除
+	 */
+	storeDocuments?: boolean;
+
+	/**
+	 * 可过滤属性 - 过滤配置
+	 * - 作用: 声明文档 attributes 中可用于搜索过滤与分面统计的属性及其类型，如 {status: 'string', tags: 'string', createdAt: 'date'}
+	 * - 默认值: undefined (不保存属性)
+	 * - 影响: 每次写入文档时将声明的属性按列保存为一个属性段文件（attr_seg_*.bin），末尾较小的属性段自动合并；
+	 *   文档更新时以最新写入的属性为准，之后新增的属性声明只对新写入的文档生效
+	 */
+	filterableAttributes?: Record<string, AttributeType>;
+
+	/**
+	 * 文档ID类型 - 文档ID配置
+	 * - 'uint32': ID 为 0 ~ 2^32-1 的整数，直接作为内部ID，超出范围时抛出错误
+	 *   （旧版本不检查范围，超过 32 位的ID保存时被截断，不同ID可能冲突；使用时间戳等较大的ID时需设置为 'number'）
+	 * - 'number' | 'bigint' | 'string': 安全整数、64 位整数或字符串（如 UUID），
+	 *   首次出现时分配连续的内部序号，映射关系追加保存在 id_map.bin 中
+	 * - 默认值: undefined（与 'uint32' 相同）
+	 * - 影响: 创建索引后不能修改；使用映射时排序相同的结果按内部序号（即首次添加的顺序）排列；
+	 *   需配合 SearchEngine 的泛型参数使用，如 new SearchEngine<string>({storage, idType: 'string'})
+	 */
+	idType?: DocumentIdType;
+
+	/**
+	 * 相关性评分算法 - 排序配置
+	 * - 'classic': 每个命中词得分 1 + 词长 * 0.1
+	 * - 'bm25': 按词频、文档频率与文档长度计算 BM25 得分，可通过 bm25K1 / bm25B 调整
+	 * - 默认值: 'bm25'（旧版本固定使用 'classic'，升级后得分与排序会变化，需要保持原有排序时设置为 'classic'）
+	 * - 影响: 词频与文档长度来自索引段的附加数据文件与 doc_lengths.bin，旧版本构建的索引按词频 1、平均文档长度计算，可通过 compact 重建
+	 */
+	ranking?: 'classic' | 'bm25';
+
+	/**
+	 * 自定义评分函数 - 排序配置
+	 * - 作用: 根据查询词、词的统计信息与匹配信息计算该词对文档得分的贡献，设置后忽略 ranking
+	 * - 默认值: undefined (按 ranking 使用内置评分函数)
+	 */
+	scorer?: Scorer;
+
+	/**
+	 * BM25 词频饱和参数 k1 - 排序配置
+	 * - 作用: 控制词频增加时得分增长的速度，越大词频的影响越大
+	 * - 默认值: 1.2
+	 */
+	bm25K1?: number;
+
+	/**
+	 * BM25 长度归一化参数 b - 排序配置
+	 * - 作用: 控制文档长度对得分的影响，0 表示不考虑长度，1 表示完全按平均长度归一化
+	 * - 默认值: 0.75
+	 */
+	bm25B?: number;
+
+	/**
+	 * 单字符词得分权重 - 排序配置
+	 * - 作用: 'bm25' 评分中单字符词（字索引）命中的得分乘以此值，使多字符词（词索引）命中的权重更高
+	 * - 默认值: 0.5
+	 * - 影响: 'classic' 评分已按词长加权，不使用此配置；自定义 scorer 可根据 stats.type 自行加权
+	 */
+	charWeight?: number;
+
 	/**
 	 * 哈希算法配置 (可选)
 	 * - 32: 使用默认32位哈希算法
@@ -92,4 +278,14 @@ export interface ISearchEngineOption {
 	 * - 影响: 适当设置可减少磁盘IO次数，提高索引性能
 	 */
 	minCharTokenSave?: number;
+
+	/**
+	 * 索引段合并因子 - 合并策略配置
+	 * - 作用: 自动合并相邻的小索引段，减少搜索时需要逐个查找的段数
+	 * - 算法: 分层合并，以分段阈值为基准按 token 数划分层级，每层大小为上一层的 N 倍，
+	 *   同一层级的相邻段达到 N 个时合并为一个；在 endBatch 或实时添加后执行
+	 * - 默认值: 0 (不自动合并，可通过 optimize 手动合并)
+	 * - 影响: 越小合并越频繁，写入开销越大，段数越少
+	 */
+	segmentMergeFactor?: number;
 }
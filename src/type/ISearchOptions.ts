@@ -0,0 +1,86 @@
+import {Filter} from "./IFilter";
+
+/**
+ * 按属性或得分排序
+ */
+export interface ISortField {
+	/**
+	 * filterableAttributes 中声明的属性名，或 _score 表示相关性得分
+	 */
+	field: string;
+	/**
+	 * 排序方向，属性默认为 asc，_score 默认为 desc
+	 */
+	order?: 'asc' | 'desc';
+}
+
+/**
+ * 排序条件，'_score' 等同于 {field: '_score', order: 'desc'}
+ */
+export type SortOption = '_score' | ISortField;
+
+/**
+ * 搜索选项
+ */
+export interface ISearchOptions {
+	/**
+	 * 返回结果的最大数量，未设置时返回全部结果
+	 */
+	limit?: number;
+
+	/**
+	 * 跳过的结果数量
+	 * - 默认值: 0
+	 * - 影响: 与 limit 一起用于按页码翻页；设置 searchAfter 时从游标之后开始跳过
+	 */
+	offset?: number;
+
+	/**
+	 * 翻页游标，上一次搜索返回的 ISearchResponse.cursor
+	 * - 作用: 只返回排在游标对应结果之后的结果；游标记录的是排序值与文档ID，新增文档不会使已返回的结果重复出现
+	 * - 默认值: undefined (从第一个结果开始)
+	 * - 影响: 排序条件需与生成游标时一致，否则抛出错误；按 _score 排序时，新增文档会改变文档频率与平均文档长度，
+	 *   已有文档的得分随之变化，游标之后的结果可能重复或遗漏，需要稳定翻页时请按属性排序
+	 */
+	searchAfter?: string;
+
+	/**
+	 * 模糊匹配的最大编辑距离
+	 * - 作用: 将查询中的每个词扩展为词典中编辑距离（插入、删除、替换、相邻交换）不超过该值的词，用于容忍拼写错误
+	 * - 默认值: 0 (不启用)
+	 * - 影响: 模糊命中的词得分按 1 / (1 + 距离) 降低；单字符词及长度不超过该距离的词不做扩展
+	 */
+	fuzzy?: 0 | 1 | 2;
+
+	/**
+	 * 是否在结果中返回存储的原始文档
+	 * - 默认值: false
+	 * - 影响: 需要开启 storeDocuments；只读取 limit 范围内结果的文档
+	 */
+	includeDocument?: boolean;
+
+	/**
+	 * 按文档属性过滤
+	 * - 作用: 只匹配属性满足所有条件的文档，支持相等、in 与 number / date 属性的范围条件
+	 * - 默认值: undefined (不过滤)
+	 * - 影响: 在评分与 limit 之前过滤；只能使用 filterableAttributes 中声明的属性，否则抛出错误
+	 */
+	filter?: Filter;
+
+	/**
+	 * 需要分面统计的属性
+	 * - 作用: 统计全部匹配结果（不受 limit 限制）在这些属性上每个取值的文档数，结果在 ISearchResponse.facets 中返回
+	 * - 默认值: undefined (不统计)
+	 * - 影响: 已删除的文档与不满足 filter 的文档不计入；只能使用 filterableAttributes 中声明的属性，否则抛出错误
+	 */
+	facets?: string[];
+
+	/**
+	 * 排序条件
+	 * - 作用: 依次按各条件排序，如 [{field: 'createdAt', order: 'desc'}, '_score']；全部相同时按文档ID升序
+	 * - 默认值: undefined (按得分从高到低)
+	 * - 影响: 在 limit 之前对全部匹配结果排序；缺少该属性的文档无论方向都排在最后；
+	 *   多值属性升序时取最小值、降序时取最大值；字符串按字符编码比较
+	 */
+	sort?: SortOption[];
+}
@@ -0,0 +1,49 @@
+/**
+ * 查询补全结果
+ */
+export interface ITermSuggestion {
+	/**
+	 * 索引中的词（经过分析器处理后的形式）
+	 */
+	term: string;
+	/**
+	 * 包含该词的文档数（不含已删除文档与旧版本）
+	 */
+	frequency: number;
+}
+
+/**
+ * 拼写纠正中单个词的替换
+ */
+export interface ISpellCorrection {
+	/**
+	 * 查询中的词（经过分析器处理后的形式）
+	 */
+	term: string;
+	/**
+	 * 替换后的索引词
+	 */
+	correction: string;
+	/**
+	 * 与原词的编辑距离
+	 */
+	distance: number;
+	/**
+	 * 包含替换词的文档数
+	 */
+	frequency: number;
+}
+
+/**
+ * 拼写纠正建议（"您是不是要找"）
+ */
+export interface ISpellSuggestion {
+	/**
+	 * 替换后的查询文本
+	 */
+	text: string;
+	/**
+	 * 各个被替换的词
+	 */
+	corrections: ISpellCorrection[];
+}
@@ -0,0 +1,22 @@
+/**
+ * 带位置信息的分词结果
+ * 分词器可以返回该类型的数组代替字符串数组，用于高亮、短语查询等需要定位 token 的功能
+ */
+export interface IToken {
+	/**
+	 * 词
+	 */
+	term: string;
+	/**
+	 * 在原文中的起始位置（UTF-16 码元）
+	 */
+	start: number;
+	/**
+	 * 在原文中的结束位置（不含）
+	 */
+	end: number;
+	/**
+	 * 词的序号，短语查询按序号判断相邻；多个词可以使用相同序号（如同义词），序号之间也可以留空（如被过滤的停用词）
+	 */
+	position: number;
+}
@@ -4,4 +4,12 @@
 export interface ITokenizedDoc {
     id: number;
     tokens: string[];
+    /**
+     * 每个 token 在原始分词结果中的位置（可选，启用位置索引时存在）
+     */
+    positions?: number[];
+    /**
+     * 每个 token 所属字段的ID（可选，文档包含 text 以外的字段时存在）
+     */
+    fields?: number[];
 }
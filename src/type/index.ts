@@ -8,3 +8,13 @@ export * from './IStorage';
 export * from './ISearchEngine';
 export * from './IHashAlgorithm';
 export * from './IIndexSegment';
+export * from './IDocumentVersion';
+export * from './IPosting';
+export * from './IQuery';
+export * from './IScorer';
+export * from './ISearchOptions';
+export * from './IHighlight';
+export * from './IToken';
+export * from './ISuggestion';
+export * from './IFilter';
+export * from './IExplanation';
@@ -26,4 +26,22 @@ describe('SimpleSearch (Facade)', () => {
 		const res = await SimpleSearch.search<any>("batch");
 		expect(res.length).toBe(1);
 	});
+
+	it('should use string IDs', async () => {
+		SimpleSearch.configure({storage: new MockStorage(), idType: 'string', storeDocuments: true});
+		try {
+			await SimpleSearch.addDocuments<string>([{id: 'doc-a', text: "string id"}, {id: 'doc-b', text: "another id"}]);
+
+			const res = await SimpleSearch.search<string>("string");
+			expect(res.map(r => r.id)).toEqual(['doc-a']);
+			expect((await SimpleSearch.getDocument('doc-b'))?.id).toBe('doc-b');
+			expect((await SimpleSearch.explain('id', 'doc-a'))?.id).toBe('doc-a');
+			expect((await SimpleSearch.similar('doc-a')).map(r => r.id)).toEqual(['doc-b']);
+			await SimpleSearch.removeDocument('doc-a');
+			expect(await SimpleSearch.hasDocument('doc-a')).toBe(true);
+			expect(await SimpleSearch.search<string>("string")).toEqual([]);
+		} finally {
+			SimpleSearch.configure({idType: undefined, storeDocuments: false});
+		}
+	});
 });
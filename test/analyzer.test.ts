@@ -0,0 +1,81 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {
+	createEnglishAnalyzers,
+	createStopwordFilter,
+	diacriticFilter,
+	nfkcFilter,
+	porterStem,
+	SearchEngine
+} from '../src';
+import {MockStorage} from './common/storage';
+
+describe('Analyzer', () => {
+	it('should stem English words with the Porter algorithm', () => {
+		const cases: Record<string, string> = {
+			caresses: 'caress', ponies: 'poni', cats: 'cat', feed: 'feed', agreed: 'agre',
+			plastered: 'plaster', bled: 'bled', motoring: 'motor', sing: 'sing', conflated: 'conflat',
+			troubled: 'troubl', sized: 'size', hopping: 'hop', falling: 'fall', hissing: 'hiss',
+			filing: 'file', happy: 'happi', sky: 'sky', relational: 'relat', conditional: 'condit',
+			rational: 'ration', digitizer: 'digit', generalization: 'gener', oscillators: 'oscil',
+			triplicate: 'triplic', formative: 'form', hopeful: 'hope', goodness: 'good', revival: 'reviv',
+			allowance: 'allow', adjustment: 'adjust', adoption: 'adopt', controlling: 'control',
+			generate: 'gener', probate: 'probat', rate: 'rate', cease: 'ceas', running: 'run', runs: 'run'
+		};
+		for (const [word, stem] of Object.entries(cases)) {
+			expect(porterStem(word), word).toBe(stem);
+		}
+	});
+
+	it('should normalize and fold terms', () => {
+		expect(nfkcFilter('ＡＢＣ')).toBe('ABC');
+		expect(nfkcFilter('ﬁle')).toBe('file');
+		expect(diacriticFilter('café')).toBe('cafe');
+		expect(diacriticFilter('ångström')).toBe('angstrom');
+		// 日文浊音不受影响
+		expect(diacriticFilter('が')).toBe('が');
+		expect(createStopwordFilter('de')('und')).toBeNull();
+		expect(createStopwordFilter(['foo'])('foo')).toBeNull();
+	});
+
+	it('should match accented and inflected forms', async () => {
+		const engine = new SearchEngine({
+			storage: new MockStorage(),
+			indexingAnalyzers: createEnglishAnalyzers(),
+			storePositions: true
+		});
+		await engine.addDocuments([
+			{id: 1, text: "Café running club"},
+			{id: 2, text: "The state of the art"},
+			{id: 3, text: "ﬁle connections"}
+		]);
+
+		expect((await engine.search('cafe')).map(r => r.id)).toEqual([1]);
+		expect((await engine.search('CAFÉ RUN')).map(r => r.id)).toEqual([1]);
+		expect((await engine.search('runs')).map(r => r.id)).toEqual([1]);
+		expect((await engine.search('file connected')).map(r => r.id)).toEqual([3]);
+		// 停用词不参与匹配，但短语中的位置保持不变
+		expect(await engine.search('the')).toEqual([]);
+		expect((await engine.search('"state of the art"')).map(r => r.id)).toEqual([2]);
+		expect(await engine.search('"state art"')).toEqual([]);
+	});
+
+	it('should use separate search analyzers', async () => {
+		const engine = new SearchEngine({
+			storage: new MockStorage(),
+			indexingAnalyzers: [diacriticFilter],
+			searchAnalyzers: []
+		});
+		await engine.addDocument({id: 1, text: "café"});
+
+		expect((await engine.search('cafe')).map(r => r.id)).toEqual([1]);
+		expect(await engine.search('café')).toEqual([]);
+	});
+
+	it('should highlight analyzed terms', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), indexingAnalyzers: createEnglishAnalyzers()});
+		const result = (await engine.highlight({id: 1, tokens: ['run']}, {text: 'He runs and ran while running'}))!;
+		expect(result.snippets).toEqual(['He <mark>runs</mark> and ran while <mark>running</mark>']);
+	});
+});
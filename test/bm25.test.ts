@@ -0,0 +1,73 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {ITermMatch, ITermStats, SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+const docs = [
+	{id: 1, text: "a passing mention of apple among banana cherry durian elderberry fig grape"},
+	{id: 2, text: "apple apple apple pie"},
+	{id: 3, text: "kiwi banana"}
+];
+
+describe('BM25 Ranking', () => {
+	it('should rank by term frequency, document length and rarity', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), ranking: 'bm25'});
+		await engine.addDocuments(docs);
+
+		const results = await engine.search('apple');
+		expect(results.map(r => r.id)).toEqual([2, 1]);
+		expect(results[1].score).toBeGreaterThan(0);
+
+		// kiwi 只出现在一个文档中，比 banana 更有区分度
+		expect((await engine.search('banana kiwi'))[0].id).toBe(3);
+		expect((await engine.search('"apple pie"'))[0].id).toBe(2);
+	});
+
+	it('should keep statistics after reload and updates', async () => {
+		const storage = new MockStorage();
+		const engine = new SearchEngine({storage, ranking: 'bm25', bm25K1: 2, bm25B: 1});
+		await engine.addDocuments(docs);
+		await engine.updateDocument({id: 2, text: "apple"});
+		await engine.removeDocument(3);
+
+		const reloaded = new SearchEngine({storage, ranking: 'bm25', bm25K1: 2, bm25B: 1});
+		const results = await reloaded.search('apple');
+		expect(results.map(r => r.id)).toEqual([2, 1]);
+		expect(results[0].score).toBeGreaterThan(results[1].score);
+
+		// 重建索引段后词频与长度保持一致
+		await reloaded.compact();
+		const compacted = await reloaded.search('apple');
+		expect(compacted.map(r => r.id)).toEqual([2, 1]);
+		expect(compacted[0].score).toBeCloseTo(results[0].score);
+	});
+
+	it('should estimate statistics for indexes without document lengths and rebuild them in compact', async () => {
+		const storage = new MockStorage();
+		await new SearchEngine({storage}).addDocuments(docs);
+		// 模拟旧版本构建的索引：没有文档长度与词频数据
+		for (const file of await storage.listFiles()) {
+			if (file === 'doc_lengths.bin' || file.includes('_pay_')) await storage.remove(file);
+		}
+
+		const calls: [ITermStats, ITermMatch][] = [];
+		const engine = new SearchEngine({
+			storage,
+			scorer: (_term, stats, match) => {
+				calls.push([stats, match]);
+				return 1;
+			}
+		});
+		await engine.search('banana');
+		expect(calls[0][0].docCount).toBe(3);
+		expect(calls[0][0].avgDocLength).toBeCloseTo(6);
+
+		await engine.compact();
+		calls.length = 0;
+		await engine.search('banana');
+		const match = calls.find(([, match]) => match.id === 3)!;
+		expect(match[0]).toMatchObject({docCount: 3, avgDocLength: 6});
+		expect(match[1]).toMatchObject({frequency: 1, docLength: 2});
+	});
+});
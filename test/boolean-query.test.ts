@@ -0,0 +1,74 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {beforeEach, describe, expect, it} from 'vitest';
+import {parseQuery, SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+const ids = (results: { id: number }[]) => results.map(r => r.id).sort();
+
+describe('Query Parser', () => {
+	it('should keep plain queries as a single term', () => {
+		expect(parseQuery('new york hotel')).toEqual({term: 'new york hotel'});
+		expect(parseQuery('re-added')).toEqual({term: 're-added'});
+		expect(parseQuery('   ')).toBeNull();
+	});
+
+	it('should only read operators at term boundaries', () => {
+		// 词中的 - 与不接词的 -、+ 是普通文本
+		expect(parseQuery('send an e-mail')).toEqual({term: 'send an e-mail'});
+		expect(parseQuery('state-of-the-art C++ - fast')).toEqual({term: 'state-of-the-art C++ - fast'});
+		expect(parseQuery('--verbose')).toEqual({term: '--verbose'});
+		expect(parseQuery('e-mail -spam')).toEqual({
+			should: [{term: 'e-mail'}],
+			mustNot: [{term: 'spam'}]
+		});
+	});
+
+	it('should parse operators, prefixes and groups', () => {
+		expect(parseQuery('apple +banana -cherry')).toEqual({
+			should: [{term: 'apple'}],
+			must: [{term: 'banana'}],
+			mustNot: [{term: 'cherry'}]
+		});
+		expect(parseQuery('a AND b OR c')).toEqual({
+			should: [{must: [{term: 'a'}, {term: 'b'}]}, {term: 'c'}]
+		});
+		expect(parseQuery('a AND NOT (b OR "c d"~2)')).toEqual({
+			must: [{term: 'a'}],
+			mustNot: [{should: [{term: 'b'}, {phrase: 'c d', slop: 2}]}]
+		});
+	});
+});
+
+describe('Boolean Query', () => {
+	let engine: SearchEngine;
+
+	beforeEach(async () => {
+		engine = new SearchEngine({storage: new MockStorage()});
+		await engine.addDocuments([
+			{id: 1, text: "apple banana"},
+			{id: 2, text: "apple cherry"},
+			{id: 3, text: "banana cherry"},
+			{id: 4, text: "durian"}
+		]);
+	});
+
+	it('should support required and excluded terms', async () => {
+		expect(ids(await engine.search('apple banana'))).toEqual([1, 2, 3]);
+		expect(ids(await engine.search('+apple +banana'))).toEqual([1]);
+		expect(ids(await engine.search('apple -banana'))).toEqual([2]);
+		expect(ids(await engine.search('+cherry apple'))).toEqual([2, 3]);
+	});
+
+	it('should support AND / OR / NOT with grouping', async () => {
+		expect(ids(await engine.search('apple AND cherry'))).toEqual([2]);
+		expect(ids(await engine.search('(apple OR banana) AND NOT cherry'))).toEqual([1]);
+		expect(ids(await engine.search('durian OR (banana AND cherry)'))).toEqual([3, 4]);
+		expect(ids(await engine.search('NOT apple'))).toEqual([]);
+	});
+
+	it('should accept structured queries', async () => {
+		expect(ids(await engine.search({must: [{term: 'banana'}], mustNot: [{term: 'apple'}]}))).toEqual([3]);
+		expect(ids(await engine.search({should: [{term: 'durian'}, {phrase: 'apple cherry'}]}))).toEqual([2, 4]);
+	});
+});
@@ -0,0 +1,167 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {beforeEach, describe, expect, it} from 'vitest';
+import {SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+describe('Compact', () => {
+	let engine: SearchEngine;
+	let mockStorage: MockStorage;
+
+	beforeEach(async () => {
+		mockStorage = new MockStorage();
+		engine = new SearchEngine({
+			storage: mockStorage,
+			wordSegmentTokenThreshold: 4
+		});
+	});
+
+	it('should purge deleted documents and reclaim space', async () => {
+		await engine.addDocuments([
+			{id: 1, text: "apple banana"},
+			{id: 2, text: "apple cherry"},
+			{id: 3, text: "apple durian"}
+		]);
+		await engine.removeDocument(1);
+		await engine.removeDocument(2);
+		const cacheSize = (await engine.getStatus()).wordCacheSize;
+
+		const result = await engine.compact();
+		expect(result.purgedDocuments).toBe(2);
+		expect(result.reclaimedBytes).toBeGreaterThan(0);
+
+		const status = await engine.getStatus();
+		expect(status.deleted).toBe(0);
+		expect(status.wordCacheSize).toBeLessThan(cacheSize);
+		expect((await engine.search("apple")).map(r => r.id)).toEqual([3]);
+
+		// 清除后的ID不再被记录，可以重新添加
+		expect(await engine.hasDocument(1)).toBe(false);
+		await engine.addDocument({id: 1, text: "apple"});
+		expect((await engine.search("apple")).map(r => r.id).sort()).toEqual([1, 3]);
+	});
+
+	it('should drop superseded versions and keep the index consistent after reload', async () => {
+		await engine.addDocuments([
+			{id: 1, text: "apple banana"},
+			{id: 2, text: "cherry durian"}
+		]);
+		await engine.updateDocument({id: 1, text: "elderberry fig"});
+		await engine.updateDocument({id: 2, text: "grape"});
+		await engine.compact();
+
+		const reloaded = new SearchEngine({storage: mockStorage, wordSegmentTokenThreshold: 4});
+		expect(await reloaded.search("apple")).toHaveLength(0);
+		expect(await reloaded.search("cherry")).toHaveLength(0);
+		expect((await reloaded.search("fig")).map(r => r.id)).toEqual([1]);
+		expect((await reloaded.search("grape")).map(r => r.id)).toEqual([2]);
+
+		const files = await mockStorage.listFiles();
+		expect(files.filter(f => f.includes('word_seg_'))).toHaveLength((await reloaded.getStatus()).wordSegments);
+	});
+
+	it('should only count added documents and include the document store', async () => {
+		engine = new SearchEngine({storage: mockStorage, storeDocuments: true});
+		await engine.addDocuments([
+			{id: 1, text: "apple ".repeat(50)},
+			{id: 2, text: "banana"}
+		]);
+		await engine.removeDocument(1);
+		// 未添加过的ID不计入清除的文档数
+		await engine.removeDocument(99);
+		const docStoreSize = (await engine.getStatus()).documentStoreSize;
+
+		const result = await engine.compact();
+		expect(result.purgedDocuments).toBe(1);
+		const status = await engine.getStatus();
+		expect(status.documentStoreSize).toBeLessThan(docStoreSize);
+		expect(result.reclaimedBytes).toBeGreaterThanOrEqual(docStoreSize - status.documentStoreSize);
+	});
+
+	it('should keep documents below the minimum save threshold searchable', async () => {
+		engine = new SearchEngine({storage: mockStorage, wordSegmentTokenThreshold: 4, minWordTokenSave: 3});
+		await engine.addDocuments([
+			{id: 1, text: "apple banana"},
+			{id: 2, text: "cherry"}
+		]);
+		await engine.addDocument({id: 3, text: "durian elderberry fig"});
+		await engine.removeDocument(2);
+		expect((await engine.search("apple")).map(r => r.id)).toEqual([1]);
+		expect((await engine.search("durian")).map(r => r.id)).toEqual([3]);
+
+		// 清除文档 2 后第一个段只剩 2 个 token，低于 minWordTokenSave
+		await engine.compact();
+		expect((await engine.search("apple")).map(r => r.id)).toEqual([1]);
+		expect((await engine.search("durian")).map(r => r.id)).toEqual([3]);
+		const reloaded = new SearchEngine({storage: mockStorage, wordSegmentTokenThreshold: 4, minWordTokenSave: 3});
+		expect((await reloaded.search("apple")).map(r => r.id)).toEqual([1]);
+		expect((await reloaded.search("durian")).map(r => r.id)).toEqual([3]);
+	});
+
+	it('should keep the segment layout produced by optimize', async () => {
+		for (let id = 1; id <= 6; id++) {
+			await engine.addDocument({id, text: `apple banana${id} cherry${id}`});
+		}
+		await engine.optimize();
+		expect((await engine.getStatus()).wordSegments).toBe(1);
+		await engine.removeDocument(1);
+
+		const result = await engine.compact();
+		expect((await engine.getStatus()).wordSegments).toBe(1);
+		expect(result.reclaimedBytes).toBeGreaterThan(0);
+		expect((await engine.search("apple")).map(r => r.id).sort()).toEqual([2, 3, 4, 5, 6]);
+	});
+
+	it('should keep the old segments when writing new segments fails', async () => {
+		await engine.addDocuments([
+			{id: 1, text: "apple banana"},
+			{id: 2, text: "apple cherry"},
+			{id: 3, text: "apple durian"}
+		]);
+		await engine.removeDocument(1);
+		const segments = (await mockStorage.listFiles()).filter(f => /^word_seg_\d+\.bin$/.test(f));
+
+		const write = mockStorage.write.bind(mockStorage);
+		mockStorage.write = async (filename, data) => {
+			if (filename.includes('_seg_')) throw new Error('disk full');
+			return write(filename, data);
+		};
+		await expect(engine.compact()).rejects.toThrow('disk full');
+		mockStorage.write = write;
+
+		expect((await mockStorage.listFiles()).filter(f => /^word_seg_\d+\.bin$/.test(f))).toEqual(segments);
+		const reloaded = new SearchEngine({storage: mockStorage, wordSegmentTokenThreshold: 4});
+		expect((await reloaded.search("apple")).map(r => r.id).sort()).toEqual([2, 3]);
+	});
+
+	it('should keep the cache and the document store when writing them fails', async () => {
+		engine = new SearchEngine({storage: mockStorage, storeDocuments: true, wordSegmentTokenThreshold: 4});
+		await engine.addDocuments([
+			{id: 1, text: "apple banana"},
+			{id: 2, text: "apple cherry"}
+		]);
+		await engine.updateDocument({id: 2, text: "apple durian"});
+		await engine.removeDocument(1);
+
+		const append = mockStorage.append.bind(mockStorage);
+		mockStorage.append = async (filename, data) => {
+			if (filename.startsWith('doc_store')) throw new Error('disk full');
+			return append(filename, data);
+		};
+		await expect(engine.compact()).rejects.toThrow('disk full');
+		mockStorage.append = append;
+
+		const reloaded = new SearchEngine({storage: mockStorage, storeDocuments: true, wordSegmentTokenThreshold: 4});
+		expect((await reloaded.search("apple")).map(r => r.id)).toEqual([2]);
+		expect(await reloaded.search("cherry")).toEqual([]);
+		expect(await reloaded.getDocument(2)).toEqual({id: 2, text: "apple durian"});
+
+		// 重试成功后切换到新文件并删除旧文件
+		await reloaded.compact();
+		expect(await reloaded.getDocument(2)).toEqual({id: 2, text: "apple durian"});
+		expect((await reloaded.search("durian")).map(r => r.id)).toEqual([2]);
+		const files = await mockStorage.listFiles();
+		expect(files).not.toContain('word_cache.bin');
+		expect(files).not.toContain('doc_store.bin');
+	});
+});
@@ -0,0 +1,106 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+describe('Document ID', () => {
+	const uuids = [
+		'3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b',
+		'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d',
+		'7e8f9a0b-1c2d-4e3f-9a5b-6c7d8e9f0a1b'
+	];
+
+	it('should index and return string IDs', async () => {
+		const engine = new SearchEngine<string>({
+			storage: new MockStorage(),
+			idType: 'string',
+			storeDocuments: true,
+			filterableAttributes: {status: 'string'}
+		});
+		await engine.addDocuments([
+			{id: uuids[0], text: "red apples and green pears", attributes: {status: 'fresh'}},
+			{id: uuids[1], text: "green tea leaves", attributes: {status: 'dried'}},
+			{id: uuids[2], text: "red wine", attributes: {status: 'fresh'}}
+		]);
+
+		expect((await engine.search('red')).map(r => r.id).sort()).toEqual([uuids[0], uuids[2]].sort());
+		const {hits} = await engine.search('green', {includeDocument: true, filter: {status: 'fresh'}});
+		expect(hits.map(r => r.id)).toEqual([uuids[0]]);
+		expect(hits[0].document).toEqual({id: uuids[0], text: "red apples and green pears", attributes: {status: 'fresh'}});
+
+		expect(await engine.hasDocument(uuids[1])).toBe(true);
+		expect(await engine.hasDocument('missing')).toBe(false);
+		expect((await engine.getDocument(uuids[1]))?.id).toBe(uuids[1]);
+		expect((await engine.explain('green', uuids[1]))?.id).toBe(uuids[1]);
+		expect((await engine.highlight({id: uuids[2], tokens: ['red']}))?.snippets).toEqual(['<mark>red</mark> wine']);
+
+		await expect(engine.addDocument({id: uuids[1], text: "duplicate"})).rejects.toThrow(`Document ID ${uuids[1]} already exists.`);
+		await engine.updateDocument({id: uuids[1], text: "black tea"});
+		expect((await engine.search('green')).map(r => r.id)).toEqual([uuids[0]]);
+		await engine.removeDocument(uuids[0]);
+		expect(await engine.search('green')).toEqual([]);
+		expect(await engine.getDocument(uuids[0])).toBeNull();
+	});
+
+	it('should persist the ID map across reloads and compaction', async () => {
+		const storage = new MockStorage();
+		const engine1 = new SearchEngine<string>({storage, idType: 'string'});
+		await engine1.addDocuments([
+			{id: uuids[0], text: "alpha beta"},
+			{id: uuids[1], text: "beta gamma"}
+		]);
+		await engine1.removeDocument(uuids[0]);
+
+		// 删除未添加过的ID不分配新的序号
+		const mapSize = await storage.getFileSize('id_map.bin');
+		await engine1.removeDocument('missing');
+		expect(await storage.getFileSize('id_map.bin')).toBe(mapSize);
+
+		const engine2 = new SearchEngine<string>({storage, idType: 'string'});
+		expect((await engine2.search('beta')).map(r => r.id)).toEqual([uuids[1]]);
+		// 新ID分配的序号不与已有的冲突
+		await engine2.addDocument({id: uuids[2], text: "beta delta"});
+		await engine2.compact();
+		expect((await engine2.search('beta')).map(r => r.id).sort()).toEqual([uuids[1], uuids[2]].sort());
+
+		const engine3 = new SearchEngine<string>({storage, idType: 'string'});
+		expect((await engine3.search('delta')).map(r => r.id)).toEqual([uuids[2]]);
+		expect(await engine3.hasDocument(uuids[0])).toBe(false);
+		await engine3.addDocument({id: uuids[0], text: "alpha again"});
+		expect((await engine3.search('alpha')).map(r => r.id)).toEqual([uuids[0]]);
+	});
+
+	it('should keep 64-bit numeric IDs distinct', async () => {
+		const numbers = new SearchEngine({storage: new MockStorage(), idType: 'number'});
+		// 按 32 位截断时两个ID相同
+		await numbers.addDocuments([{id: 2 ** 32 + 1, text: "large id"}, {id: 1, text: "small id"}]);
+		expect((await numbers.search('large')).map(r => r.id)).toEqual([2 ** 32 + 1]);
+		expect((await numbers.search('id')).map(r => r.id).sort((a, b) => a - b)).toEqual([1, 2 ** 32 + 1]);
+
+		const storage = new MockStorage();
+		const big = 2n ** 63n + 5n;
+		const bigints = new SearchEngine<bigint>({storage, idType: 'bigint', storeDocuments: true});
+		await bigints.addDocuments([{id: big, text: "big number"}, {id: -1n, text: "negative number"}]);
+		const reloaded = new SearchEngine<bigint>({storage, idType: 'bigint', storeDocuments: true});
+		expect((await reloaded.search('big')).map(r => r.id)).toEqual([big]);
+		expect((await reloaded.getDocument(-1n))?.id).toBe(-1n);
+	});
+
+	it('should reject IDs that do not match the ID type', async () => {
+		// 未设置ID类型时与 'uint32' 相同，不再将较大的ID截断为 32 位
+		for (const idType of [undefined, 'uint32'] as const) {
+			const engine = new SearchEngine({storage: new MockStorage(), idType});
+			await expect(engine.addDocument({id: Date.now(), text: "timestamp"}))
+				.rejects.toThrow('is not an unsigned 32-bit integer; set idType to use other IDs.');
+			await expect(engine.addDocument({id: 2 ** 32, text: "overflow"}))
+				.rejects.toThrow('Document ID 4294967296 is not an unsigned 32-bit integer; set idType to use other IDs.');
+			await expect(engine.addDocument({id: 1.5, text: "fraction"})).rejects.toThrow();
+			expect(await engine.hasDocument(2 ** 32)).toBe(false);
+		}
+
+		const strings = new SearchEngine<string>({storage: new MockStorage(), idType: 'string'});
+		await expect(strings.addDocument({id: 1 as unknown as string, text: "number"}))
+			.rejects.toThrow('Document ID 1 is not a valid string ID.');
+	});
+});
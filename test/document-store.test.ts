@@ -0,0 +1,72 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+const docs = [
+	{id: 1, text: "apple banana", url: "/a"},
+	{id: 2, fields: {title: "cherry pie", tags: ["dessert"]}},
+	{id: 3, text: "apple cherry"}
+];
+
+describe('Document Store', () => {
+	it('should return stored documents', async () => {
+		const storage = new MockStorage();
+		const engine = new SearchEngine({storage, storeDocuments: true});
+		await engine.addDocuments(docs);
+
+		expect(await engine.getDocument(1)).toEqual(docs[0]);
+		expect(await engine.getDocument(2)).toEqual(docs[1]);
+		expect(await engine.getDocument(99)).toBeNull();
+
+		const {hits} = await engine.search('apple', {includeDocument: true});
+		expect(hits.map(hit => hit.document)).toEqual(expect.arrayContaining([docs[0], docs[2]]));
+		// 未设置 includeDocument 时不返回文档
+		expect((await engine.search('apple', 10))[0].document).toBeUndefined();
+
+		const reloaded = new SearchEngine({storage});
+		expect(await reloaded.getDocument(3)).toEqual(docs[2]);
+	});
+
+	it('should return the latest version and respect removal', async () => {
+		const storage = new MockStorage();
+		const engine = new SearchEngine({storage, storeDocuments: true});
+		await engine.addDocuments(docs);
+
+		await engine.updateDocument({id: 1, text: "apple tart"});
+		expect(await engine.getDocument(1)).toEqual({id: 1, text: "apple tart"});
+
+		await engine.removeDocument(3);
+		expect(await engine.getDocument(3)).toBeNull();
+
+		const sizeBefore = (await engine.getStatus()).documentStoreSize;
+		await engine.compact();
+		expect((await engine.getStatus()).documentStoreSize).toBeLessThan(sizeBefore);
+		expect(await engine.getDocument(1)).toEqual({id: 1, text: "apple tart"});
+		expect(await engine.getDocument(2)).toEqual(docs[1]);
+		expect(await engine.getDocument(3)).toBeNull();
+	});
+
+	it('should not store documents by default', async () => {
+		const storage = new MockStorage();
+		const engine = new SearchEngine({storage});
+		await engine.addDocuments(docs);
+
+		expect(await engine.getDocument(1)).toBeNull();
+		expect((await engine.getStatus()).documentStoreSize).toBe(0);
+		expect(await storage.listFiles()).not.toContain('doc_store.bin');
+	});
+
+	it('should read documents across compressed blocks', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), storeDocuments: true});
+		const large = Array.from({length: 300}, (_, i) => ({id: i + 1, text: `item ${i} ${'x'.repeat(500)}`}));
+		await engine.addDocuments(large);
+
+		expect(await engine.getDocument(1)).toEqual(large[0]);
+		expect(await engine.getDocument(300)).toEqual(large[299]);
+		const {hits} = await engine.search('item', {includeDocument: true});
+		expect(hits).toHaveLength(300);
+		expect(hits.every(hit => hit.document?.id === hit.id)).toBe(true);
+	});
+});
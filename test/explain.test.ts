@@ -0,0 +1,59 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+describe('Explain', () => {
+	it('should explain the score of each matched term', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), fields: {title: {boost: 3}}});
+		await engine.addDocuments([
+			{id: 1, fields: {title: 'apple pie', body: 'a classic apple dessert'}},
+			{id: 2, fields: {title: 'banana', body: 'yellow fruit'}}
+		]);
+
+		const [hit] = await engine.search('apple 果');
+		const explanation = (await engine.explain('apple 果', 1))!;
+		expect(explanation.id).toBe(1);
+		expect(explanation.score).toBeCloseTo(hit.score);
+		expect(explanation.terms.map(t => t.term)).toEqual(['apple']);
+
+		const [apple] = explanation.terms;
+		expect(apple).toMatchObject({type: 'word', segment: 'word_seg_1.bin', docFrequency: 1, weight: 1});
+		expect(apple.fields.map(f => [f.field, f.frequency, f.boost])).toEqual([['title', 1, 3], ['body', 1, 1]]);
+		expect(apple.score).toBeCloseTo(apple.fields.reduce((sum, f) => sum + f.score, 0));
+		expect(apple.fields[0].score).toBeGreaterThan(apple.fields[1].score);
+
+		expect(await engine.explain('apple', 2)).toBeNull();
+		expect(await engine.explain('apple', 99)).toBeNull();
+	});
+
+	it('should show char terms and weights of fuzzy and synonym matches', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), synonyms: [['laptop', 'notebook']], synonymWeight: 0.5});
+		await engine.addDocuments([
+			{id: 1, text: "notebook 果"},
+			{id: 2, text: "aple"}
+		]);
+
+		const synonym = (await engine.explain('laptop 果', 1))!;
+		expect(synonym.terms.map(t => [t.term, t.type, t.weight])).toEqual([['果', 'char', 1], ['notebook', 'word', 0.5]]);
+		expect(synonym.terms[0].segment).toBe('char_seg_1.bin');
+		expect(synonym.score).toBeCloseTo((await engine.search('laptop 果'))[0].score);
+		for (const term of synonym.terms) {
+			expect(term.score).toBeCloseTo(term.fields.reduce((sum, f) => sum + f.score, 0));
+		}
+
+		const fuzzy = (await engine.explain('apple', 2, {fuzzy: 1}))!;
+		expect(fuzzy.terms).toHaveLength(1);
+		expect(fuzzy.terms[0]).toMatchObject({term: 'aple', weight: 0.5});
+		expect(fuzzy.terms[0].fields[0].score).toBeCloseTo(fuzzy.terms[0].score);
+		expect(await engine.explain('apple', 2)).toBeNull();
+	});
+
+	it('should respect filters', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), filterableAttributes: {lang: 'string'}});
+		await engine.addDocument({id: 1, text: "apple", attributes: {lang: 'en'}});
+		expect(await engine.explain('apple', 1, {filter: {lang: 'en'}})).not.toBeNull();
+		expect(await engine.explain('apple', 1, {filter: {lang: 'fr'}})).toBeNull();
+	});
+});
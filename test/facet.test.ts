@@ -0,0 +1,70 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+describe('Facets', () => {
+	const createEngine = async () => {
+		const engine = new SearchEngine({
+			storage: new MockStorage(),
+			filterableAttributes: {category: 'string', tags: 'string', year: 'number', publishedAt: 'date'}
+		});
+		await engine.addDocuments([
+			{id: 1, text: "apple pie recipe", attributes: {category: 'food', tags: ['sweet', 'baking'], year: 2023}},
+			{id: 2, text: "apple cider", attributes: {category: 'drink', tags: ['sweet'], year: 2024}},
+			{id: 3, text: "apple crumble", attributes: {category: 'food', tags: ['baking', 'sweet', 'baking'], year: 2024}},
+			{id: 4, text: "apple juice", attributes: {category: 'drink', publishedAt: '2024-05-01T00:00:00.000Z'}},
+			{id: 5, text: "banana bread", attributes: {category: 'food', tags: ['baking']}}
+		]);
+		return engine;
+	};
+
+	it('should count attribute values over all matches', async () => {
+		const engine = await createEngine();
+		const response = await engine.search('apple', {limit: 1, facets: ['category', 'tags', 'year', 'publishedAt']});
+
+		expect(response.hits).toHaveLength(1);
+		expect(response.facets).toEqual({
+			category: {food: 2, drink: 2},
+			tags: {sweet: 3, baking: 2},
+			year: {'2024': 2, '2023': 1},
+			publishedAt: {'2024-05-01T00:00:00.000Z': 1}
+		});
+		// 按文档数从多到少排列
+		expect(Object.keys(response.facets!.tags)).toEqual(['sweet', 'baking']);
+		expect((await engine.search('apple', {})).facets).toBeUndefined();
+	});
+
+	it('should respect filters and deleted documents', async () => {
+		const engine = await createEngine();
+		await engine.removeDocument(3);
+
+		const response = await engine.search('apple OR bread', {filter: {tags: 'baking'}, facets: ['category', 'tags']});
+		expect(response.hits.map(h => h.id).sort()).toEqual([1, 5]);
+		expect(response.facets).toEqual({
+			category: {food: 2},
+			tags: {baking: 2, sweet: 1}
+		});
+		expect((await engine.search('apple', {filter: {tags: {in: ['sweet']}, year: {gte: 2024}}})).hits.map(h => h.id)).toEqual([2]);
+	});
+
+	it('should keep multi-valued attributes after compact and reload', async () => {
+		const storage = new MockStorage();
+		const options = {storage, filterableAttributes: {tags: 'string' as const}};
+		const engine = new SearchEngine(options);
+		await engine.addDocument({id: 1, text: "apple", attributes: {tags: ['a', 'b']}});
+		await engine.addDocument({id: 2, text: "apple", attributes: {tags: []}});
+		await engine.addDocument({id: 3, text: "apple", attributes: {tags: ['b']}});
+		await engine.compact();
+
+		const response = await new SearchEngine(options).search('apple', {filter: {tags: 'b'}, facets: ['tags']});
+		expect(response.hits.map(h => h.id).sort()).toEqual([1, 3]);
+		expect(response.facets).toEqual({tags: {b: 2, a: 1}});
+	});
+
+	it('should reject undeclared facet attributes', async () => {
+		const engine = await createEngine();
+		await expect(engine.search('apple', {facets: ['color']})).rejects.toThrow('not filterable');
+	});
+});
@@ -0,0 +1,76 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {parseQuery, SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+const docs = [
+	{id: 1, fields: {title: "invoice template", body: "a simple layout for billing"}},
+	{id: 2, fields: {title: "billing guide", body: "send an invoice"}},
+	{id: 3, fields: {title: "travel notes", body: "new trip to york", tags: ["new york", "city"]}},
+	{id: 4, text: "invoice archive"}
+];
+
+const ids = (results: { id: number }[]) => results.map(r => r.id).sort();
+
+describe('Field Search', () => {
+	it('should apply per-field boosts', async () => {
+		// 不设置权重时文档2 更短，得分更高
+		const plain = new SearchEngine({storage: new MockStorage()});
+		await plain.addDocuments(docs.slice(0, 2));
+		expect((await plain.search('invoice')).map(r => r.id)).toEqual([2, 1]);
+
+		const engine = new SearchEngine({
+			storage: new MockStorage(),
+			fields: {title: {boost: 3}}
+		});
+		await engine.addDocuments(docs.slice(0, 2));
+
+		const results = await engine.search('invoice');
+		expect(results.map(r => r.id)).toEqual([1, 2]);
+		expect(results[0].score).toBeGreaterThan(results[1].score * 2);
+	});
+
+	it('should scope queries to a field', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), storePositions: true});
+		await engine.addDocuments(docs);
+
+		expect(ids(await engine.search('invoice'))).toEqual([1, 2, 4]);
+		expect(ids(await engine.search('title:invoice'))).toEqual([1]);
+		expect(ids(await engine.search('body:invoice'))).toEqual([2]);
+		// 普通文档的内容属于 text 字段
+		expect(ids(await engine.search('text:invoice'))).toEqual([4]);
+		expect(ids(await engine.search({term: 'invoice', field: 'body'}))).toEqual([2]);
+		expect(await engine.search({term: 'invoice', field: 'missing'})).toEqual([]);
+
+		expect(ids(await engine.search('title:inv*'))).toEqual([1]);
+		expect(ids(await engine.search('title:invoice OR body:trip'))).toEqual([1, 3]);
+	});
+
+	it('should not match phrases across fields or array elements', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), storePositions: true});
+		await engine.addDocuments(docs);
+
+		expect(ids(await engine.search('tags:"new york"'))).toEqual([3]);
+		expect(await engine.search('body:"new york"')).toEqual([]);
+		// 数组元素之间有间隔，york 与 city 不相邻
+		expect(await engine.search('"york city"')).toEqual([]);
+		expect(await engine.search('"york new"')).toEqual([]);
+	});
+
+	it('should keep fields after reload', async () => {
+		const storage = new MockStorage();
+		const engine = new SearchEngine({storage});
+		await engine.addDocuments(docs);
+
+		const reloaded = new SearchEngine({storage});
+		expect(ids(await reloaded.search('title:invoice'))).toEqual([1]);
+		expect(ids(await reloaded.search('tags:city'))).toEqual([3]);
+	});
+
+	it('should parse field prefixes only for known fields', () => {
+		expect(parseQuery('title:invoice', ['title'])).toEqual({term: 'invoice', field: 'title'});
+		expect(parseQuery('title:"new york"', ['title'])).toEqual({phrase: 'new york', field: 'title'});
+		expect(parseQuery('http://example', ['title'])).toEqual({term: 'http://example'});
+	});
+});
@@ -0,0 +1,86 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+describe('Filter', () => {
+	const createEngine = async (storage = new MockStorage()) => {
+		const engine = new SearchEngine({
+			storage,
+			filterableAttributes: {status: 'string', price: 'number', createdAt: 'date', featured: 'string'}
+		});
+		await engine.addDocuments([
+			{id: 1, text: "red apple", attributes: {status: 'published', price: 3, createdAt: '2024-01-10'}},
+			{id: 2, text: "green apple", attributes: {status: 'draft', price: 5, createdAt: new Date('2024-02-01')}},
+			{id: 3, text: "apple pie", attributes: {status: 'published', price: 12, createdAt: Date.parse('2024-03-15'), featured: true}}
+		]);
+		await engine.addDocument({id: 4, text: "apple juice"});
+		return engine;
+	};
+	const ids = (results: { hits: { id: number }[] }) => results.hits.map(r => r.id).sort((a, b) => a - b);
+
+	it('should filter by equality, in and ranges', async () => {
+		const engine = await createEngine();
+
+		expect(ids(await engine.search('apple', {filter: {status: 'published'}}))).toEqual([1, 3]);
+		expect(ids(await engine.search('apple', {filter: {status: {in: ['draft', 'archived']}}}))).toEqual([2]);
+		expect(ids(await engine.search('apple', {filter: {price: {gte: 5}}}))).toEqual([2, 3]);
+		expect(ids(await engine.search('apple', {filter: {price: {gt: 3, lt: 12}}}))).toEqual([2]);
+		expect(ids(await engine.search('apple', {filter: {price: 3}}))).toEqual([1]);
+		expect(ids(await engine.search('apple', {filter: {createdAt: {lt: new Date('2024-02-15')}}}))).toEqual([1, 2]);
+		expect(ids(await engine.search('apple', {filter: {createdAt: {gte: '2024-02-01'}, status: 'published'}}))).toEqual([3]);
+		expect(ids(await engine.search('apple', {filter: {featured: true}}))).toEqual([3]);
+		// 缺少属性的文档不满足任何条件
+		expect(ids(await engine.search('apple', {filter: {price: {lt: 100}}}))).toEqual([1, 2, 3]);
+	});
+
+	it('should filter before limiting', async () => {
+		const engine = await createEngine();
+		const {hits} = await engine.search('apple', {limit: 1, filter: {status: 'draft'}});
+		expect(hits.map(r => r.id)).toEqual([2]);
+		expect(ids(await engine.search('"apple pie" OR juice', {filter: {status: 'published'}}))).toEqual([3]);
+	});
+
+	it('should reject undeclared attributes and string ranges', async () => {
+		const engine = await createEngine();
+		await expect(engine.search('apple', {filter: {color: 'red'}})).rejects.toThrow('not filterable');
+		await expect(engine.search('apple', {filter: {status: {gt: 'a'}}})).rejects.toThrow('not supported');
+	});
+
+	it('should use the latest attributes after updates, deletes, merges and reload', async () => {
+		const storage = new MockStorage();
+		const engine = await createEngine(storage);
+		await engine.updateDocument({id: 2, text: "green apple", attributes: {status: 'published', price: 5}});
+		await engine.removeDocument(1);
+		expect(ids(await engine.search('apple', {filter: {status: 'published'}}))).toEqual([2, 3]);
+
+		// 属性段过多时自动合并
+		for (let id = 10; id < 20; id++) {
+			await engine.addDocument({id, text: "apple tart", attributes: {status: 'draft', price: id}});
+		}
+		expect((await storage.listFiles()).filter(f => f.startsWith('attr_seg_')).length).toBeLessThanOrEqual(8);
+		expect(ids(await engine.search('tart', {filter: {price: {gte: 18}}}))).toEqual([18, 19]);
+
+		await engine.compact();
+		const reloaded = new SearchEngine({storage, filterableAttributes: {status: 'string', price: 'number'}});
+		expect(ids(await reloaded.search('apple', {filter: {status: 'published'}}))).toEqual([2, 3]);
+		expect(ids(await reloaded.search('apple', {filter: {price: {lte: 10}}}))).toEqual([2, 10]);
+	});
+
+	it('should only merge small trailing attribute segments', async () => {
+		const storage = new MockStorage();
+		const engine = new SearchEngine({storage, filterableAttributes: {price: 'number'}});
+		await engine.addDocuments(Array.from({length: 100}, (_, i) => ({id: i + 1, text: "apple", attributes: {price: i + 1}})));
+		for (let id = 101; id <= 120; id++) {
+			await engine.addDocument({id, text: "apple", attributes: {price: id}});
+		}
+
+		const files = (await storage.listFiles()).filter(f => f.startsWith('attr_seg_'));
+		// 第一次写入的大段没有被重写，后续写入按二进制计数合并
+		expect(files).toContain('attr_seg_1.bin');
+		expect(files.length).toBeLessThanOrEqual(4);
+		expect(ids(await engine.search('apple', {filter: {price: {gt: 98, lt: 103}}}))).toEqual([99, 100, 101, 102]);
+		expect((await engine.search('apple', {filter: {price: {gte: 1}}})).total).toBe(120);
+	});
+});
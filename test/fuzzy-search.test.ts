@@ -0,0 +1,64 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+const docs = [
+	{id: 1, text: "search engine document"},
+	{id: 2, text: "documents archive"},
+	{id: 3, text: "keyboard layout"},
+	{id: 4, text: "an ox"}
+];
+
+const ids = (results: { id: number }[]) => results.map(r => r.id).sort();
+
+describe('Fuzzy Search', () => {
+	it('should match terms within the edit distance', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), wordSegmentTokenThreshold: 4});
+		await engine.addDocuments(docs);
+
+		// 不启用时保持精确匹配，数字参数仍返回数组
+		expect(await engine.search('documnet', 10)).toEqual([]);
+
+		// 相邻交换计为一次编辑
+		const {hits} = await engine.search('documnet', {fuzzy: 1});
+		expect(ids(hits)).toEqual([1]);
+		expect(hits[0].tokens).toEqual(['document']);
+
+		expect(ids((await engine.search('documnets', {fuzzy: 2})).hits)).toEqual([1, 2]);
+		expect(ids((await engine.search('keybaord layuot', {fuzzy: 1})).hits)).toEqual([3]);
+		expect(ids(await engine.search({term: 'serch', fuzzy: 1}))).toEqual([1]);
+
+		// 长度不超过距离的词不做扩展
+		expect((await engine.search('ax', {fuzzy: 2})).hits).toEqual([]);
+	});
+
+	it('should score fuzzy hits lower than exact hits', async () => {
+		const engine = new SearchEngine({storage: new MockStorage()});
+		await engine.addDocuments([
+			{id: 1, text: "document"},
+			{id: 2, text: "documents"}
+		]);
+
+		const {hits} = await engine.search('document', {fuzzy: 1, limit: 1});
+		expect(hits).toHaveLength(1);
+		expect(hits[0].id).toBe(1);
+
+		const [exact, fuzzy] = (await engine.search('documents', {fuzzy: 1})).hits;
+		expect(exact.id).toBe(2);
+		expect(fuzzy.termScores.document).toBeLessThan(exact.termScores.documents);
+	});
+
+	it('should expand terms from segments without a term table', async () => {
+		const storage = new MockStorage();
+		const engine = new SearchEngine({storage});
+		await engine.addDocuments(docs);
+
+		for (const file of await storage.listFiles()) {
+			if (file.includes('_terms_')) await storage.remove(file);
+		}
+		const reloaded = new SearchEngine({storage});
+		expect(ids((await reloaded.search('archiev', {fuzzy: 1})).hits)).toEqual([2]);
+	});
+});
@@ -0,0 +1,62 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+describe('Highlight', () => {
+	it('should highlight stored documents', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), storeDocuments: true});
+		await engine.addDocuments([
+			{id: 1, text: "The Quick brown fox jumps over the lazy dog"},
+			{id: 2, fields: {title: "Fox news", tags: ["quick", "fox"]}}
+		]);
+
+		const hit = (await engine.search('quick fox')).find(hit => hit.id === 1)!;
+		const result = (await engine.highlight(hit))!;
+		expect(result.matches).toEqual([
+			{token: 'quick', start: 4, end: 9},
+			{token: 'fox', start: 16, end: 19}
+		]);
+		expect(result.snippets).toEqual(['The <mark>Quick</mark> brown <mark>fox</mark> jumps over the lazy dog']);
+
+		expect((await engine.highlight({id: 2, tokens: ['fox']}, {field: 'title', preTag: '[', postTag: ']'}))!.snippets)
+			.toEqual(['[Fox] news']);
+		expect((await engine.highlight({id: 2, tokens: ['fox']}, {field: 'tags'}))!.text).toBe('quick\nfox');
+		expect(await engine.highlight({id: 2, tokens: ['fox']})).toBeNull();
+		expect(await engine.highlight({id: 3, tokens: ['fox']})).toBeNull();
+	});
+
+	it('should choose the window with the most distinct matches', async () => {
+		const engine = new SearchEngine({storage: new MockStorage()});
+		const text = [
+			"apple pie recipe with a lot of filler words that do not matter",
+			"some more filler text about nothing in particular at all",
+			"banana bread and apple crumble are both great desserts"
+		].join(' ');
+
+		const result = (await engine.highlight({id: 1, tokens: ['apple', 'banana']}, {text, snippetLength: 60}))!;
+		expect(result.matches.map(m => m.token)).toEqual(['apple', 'banana', 'apple']);
+		expect(result.snippets).toHaveLength(1);
+		expect(result.snippets[0]).toContain('<mark>banana</mark> bread and <mark>apple</mark>');
+		expect(result.snippets[0].startsWith('…')).toBe(true);
+
+		const two = (await engine.highlight({id: 1, tokens: ['apple', 'banana']}, {text, snippetLength: 30, maxSnippets: 2}))!;
+		expect(two.snippets).toHaveLength(2);
+		expect(two.snippets[0]).toContain('<mark>apple</mark> pie');
+		expect(two.snippets[1]).toContain('<mark>banana</mark>');
+	});
+
+	it('should use the configured tokenizer for offsets', async () => {
+		const engine = new SearchEngine({
+			storage: new MockStorage(),
+			indexingTokenizer: ({text}) => text.split('-')
+		});
+		const result = (await engine.highlight({id: 1, tokens: ['b c']}, {text: 'a-b c-d'}))!;
+		expect(result.matches).toEqual([{token: 'b c', start: 2, end: 5}]);
+
+		// 没有命中词时返回文本开头
+		const empty = (await engine.highlight({id: 1, tokens: []}, {text: 'one two three', snippetLength: 9}))!;
+		expect(empty.snippets).toEqual(['one two…']);
+	});
+});
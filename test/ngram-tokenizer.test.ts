@@ -0,0 +1,63 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {createNgramTokenizer, SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+const terms = (text: string, tokenize = createNgramTokenizer()) => tokenize({text}).map(t => t.term);
+
+describe('N-gram Tokenizer', () => {
+	it('should split CJK text into n-grams and latin text into words', () => {
+		expect(terms('東京タワー Tokyo')).toEqual([
+			'東', '東京', '京', '京タ', 'タ', 'タワ', 'ワ', 'ワー', 'ー', 'tokyo'
+		]);
+		expect(terms('한국어abc', createNgramTokenizer({unigrams: false}))).toEqual(['한국', '국어', 'abc']);
+		expect(terms('ひらがな', createNgramTokenizer({n: 3, unigrams: false}))).toEqual(['ひらが', 'らがな']);
+		// 短于 n 的片段整体作为一个词
+		expect(terms('日 本', createNgramTokenizer({unigrams: false}))).toEqual(['日', '本']);
+		expect(terms('日 本')).toEqual(['日', '本']);
+	});
+
+	it('should report offsets and positions', () => {
+		const tokens = createNgramTokenizer({unigrams: false})({text: 'a 𠀋𠀌c'});
+		expect(tokens).toEqual([
+			{term: 'a', start: 0, end: 1, position: 0},
+			{term: '𠀋𠀌', start: 2, end: 6, position: 1},
+			{term: 'c', start: 6, end: 7, position: 3}
+		]);
+	});
+
+	it('should search Japanese and Korean text', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), tokenizer: 'ngram', storePositions: true});
+		await engine.addDocuments([
+			{id: 1, text: "東京都に住んでいます"},
+			{id: 2, text: "京都の観光"},
+			{id: 3, text: "서울 특별시"},
+			{id: 4, text: "カタカナ search"}
+		]);
+
+		expect((await engine.search('"東京都"')).map(r => r.id)).toEqual([1]);
+		expect((await engine.search('"京都"')).map(r => r.id).sort()).toEqual([1, 2]);
+		expect((await engine.search('특별')).map(r => r.id)).toEqual([3]);
+		expect((await engine.search('カタカナ')).map(r => r.id)).toEqual([4]);
+		expect((await engine.search('SEARCH')).map(r => r.id)).toEqual([4]);
+		// 单字查询命中字索引
+		expect((await engine.search('観')).map(r => r.id)).toEqual([2]);
+	});
+
+	it('should index single extension characters in the char index', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), tokenizer: 'ngram'});
+		await engine.addDocument({id: 1, text: "𠮷野家"});
+
+		expect((await engine.search('𠮷')).map(r => r.id)).toEqual([1]);
+		expect((await engine.explain('𠮷', 1))?.terms.map(t => [t.term, t.type])).toEqual([['𠮷', 'char']]);
+		expect((await engine.explain('𠮷野', 1))?.terms.map(t => [t.term, t.type])).toEqual([['𠮷野', 'word'], ['𠮷', 'char'], ['野', 'char']]);
+	});
+
+	it('should accept tokenizer options', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), tokenizer: {n: 3, unigrams: false}});
+		await engine.addDocument({id: 1, text: "東京都庁"});
+		expect((await engine.search('京都庁')).map(r => r.id)).toEqual([1]);
+		expect(await engine.search('東京')).toEqual([]);
+	});
+});
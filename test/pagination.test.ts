@@ -0,0 +1,70 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+describe('Pagination', () => {
+	const createEngine = async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), filterableAttributes: {rank: 'number'}});
+		await engine.addDocuments(Array.from({length: 25}, (_, i) => ({
+			id: i + 1,
+			text: `apple ${'pie '.repeat(i % 5)}`,
+			attributes: {rank: i % 7}
+		})));
+		return engine;
+	};
+
+	it('should page with offset and report the total', async () => {
+		const engine = await createEngine();
+		const all = (await engine.search('apple', {})).hits.map(h => h.id);
+		expect(all).toHaveLength(25);
+
+		const page = await engine.search('apple', {offset: 10, limit: 10});
+		expect(page.total).toBe(25);
+		expect(page.hits.map(h => h.id)).toEqual(all.slice(10, 20));
+		expect((await engine.search('apple', {offset: 30, limit: 10})).hits).toEqual([]);
+		expect((await engine.search('missing', {limit: 10})).total).toBe(0);
+	});
+
+	it('should continue from a cursor', async () => {
+		const engine = await createEngine();
+		const sort = [{field: 'rank', order: 'desc' as const}, '_score' as const];
+		const all = (await engine.search('apple', {sort})).hits.map(h => h.id);
+
+		const seen: number[] = [];
+		let cursor: string | undefined;
+		do {
+			const page = await engine.search('apple', {sort, limit: 10, searchAfter: cursor});
+			expect(page.total).toBe(25);
+			seen.push(...page.hits.map(h => h.id));
+			cursor = page.cursor;
+		} while (cursor);
+		expect(seen).toEqual(all);
+	});
+
+	it('should keep the cursor stable when documents are added', async () => {
+		const engine = await createEngine();
+		const sort = [{field: 'rank'}];
+		const first = await engine.search('apple', {sort, limit: 5});
+		await engine.addDocument({id: 100, text: "apple", attributes: {rank: 0}});
+
+		const next = await engine.search('apple', {sort, limit: 5, searchAfter: first.cursor});
+		const firstIds = first.hits.map(h => h.id);
+		expect(next.hits.some(h => firstIds.includes(h.id))).toBe(false);
+		// 新文档排在游标之前，不会出现在后续页中
+		expect(next.hits.map(h => h.id)).not.toContain(100);
+		expect(next.total).toBe(26);
+	});
+
+	it('should reject invalid cursors', async () => {
+		const engine = await createEngine();
+		const {cursor} = await engine.search('apple', {limit: 5});
+		await expect(engine.search('apple', {searchAfter: 'not a cursor'})).rejects.toThrow('Invalid searchAfter cursor');
+		await expect(engine.search('apple', {searchAfter: cursor, sort: [{field: 'rank'}, '_score']})).rejects.toThrow('Invalid searchAfter cursor');
+		// 排序条件数相同但不同的游标同样被拒绝
+		await expect(engine.search('apple', {searchAfter: cursor, sort: [{field: 'rank'}]})).rejects.toThrow('Invalid searchAfter cursor');
+		const {cursor: rankCursor} = await engine.search('apple', {limit: 5, sort: [{field: 'rank'}]});
+		await expect(engine.search('apple', {searchAfter: rankCursor, sort: [{field: 'rank', order: 'desc'}]})).rejects.toThrow('Invalid searchAfter cursor');
+	});
+});
@@ -0,0 +1,53 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+const docs = [
+	{id: 1, text: "I love new york city"},
+	{id: 2, text: "new cars made in york"},
+	{id: 3, text: "the fast red sports car"},
+	{id: 4, text: "my car is fast"}
+];
+
+const ids = (results: { id: number }[]) => results.map(r => r.id).sort();
+
+describe('Phrase Search', () => {
+	it('should match exact phrases and proximity queries', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), storePositions: true});
+		await engine.addDocuments(docs);
+
+		expect(ids(await engine.search('new york'))).toEqual([1, 2]);
+		expect(ids(await engine.search('"new york"'))).toEqual([1]);
+		expect(ids(await engine.search('"fast car"'))).toEqual([]);
+		expect(ids(await engine.search('"fast car"~3'))).toEqual([3, 4]);
+		expect(ids(await engine.search('"fast car"~2'))).toEqual([3]);
+		expect(ids(await engine.search('"fast car"~1'))).toEqual([]);
+		// 顺序颠倒同样计入距离，两个相邻的词互换需要 slop 为 2
+		expect(ids(await engine.search('"york new"~0'))).toEqual([]);
+		expect(ids(await engine.search('"york new"~1'))).toEqual([]);
+		expect(ids(await engine.search('"york new"~2'))).toEqual([1]);
+		// 短语与普通查询组合
+		expect(ids(await engine.search('sports "new york"'))).toEqual([1, 3]);
+	});
+
+	it('should keep positions after segment rebuilds and reload', async () => {
+		const storage = new MockStorage();
+		const engine = new SearchEngine({storage, storePositions: true, wordSegmentTokenThreshold: 6, hashAlgorithm: 32});
+		await engine.addDocuments(docs);
+		await engine.updateDocument({id: 2, text: "york is not new"});
+		await engine.optimize();
+
+		const reloaded = new SearchEngine({storage, storePositions: true, wordSegmentTokenThreshold: 6, hashAlgorithm: 32});
+		expect(ids(await reloaded.search('"new york"'))).toEqual([1]);
+		expect(ids(await reloaded.search('"york is"'))).toEqual([2]);
+	});
+
+	it('should fall back to co-occurrence without a positional index', async () => {
+		const engine = new SearchEngine({storage: new MockStorage()});
+		await engine.addDocuments(docs);
+
+		expect(ids(await engine.search('"new york"'))).toEqual([1, 2]);
+	});
+});
@@ -0,0 +1,70 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {parseQuery, SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+const docs = [
+	{id: 1, text: "a short document"},
+	{id: 2, text: "the documentation site"},
+	{id: 3, text: "docker images"},
+	{id: 4, text: "colour and color"},
+	{id: 5, text: "colour only"}
+];
+
+const ids = (results: { id: number }[]) => results.map(r => r.id).sort();
+
+describe('Prefix and Wildcard Search', () => {
+	it('should parse prefix and wildcard terms', () => {
+		expect(parseQuery('docu*')).toEqual({prefix: 'docu'});
+		expect(parseQuery('colo?r')).toEqual({wildcard: 'colo?r'});
+		expect(parseQuery('doc*ion -docker')).toEqual({
+			should: [{wildcard: 'doc*ion'}],
+			mustNot: [{term: 'docker'}]
+		});
+		// 末尾的问号是标点，单独的 * 被忽略
+		expect(parseQuery('what?')).toEqual({term: 'what?'});
+		expect(parseQuery('*')).toBeNull();
+	});
+
+	it('should keep trailing punctuation as plain text', async () => {
+		expect(parseQuery('what is a docker image?')).toEqual({term: 'what is a docker image?'});
+		expect(parseQuery('really?? why?!')).toEqual({term: 'really?? why?!'});
+		expect(parseQuery('5 * 3')).toEqual({should: [{term: '5'}, {term: '3'}]});
+
+		const engine = new SearchEngine({storage: new MockStorage()});
+		await engine.addDocuments(docs);
+		expect(ids(await engine.search('docker images?'))).toEqual([3]);
+		expect(ids(await engine.search('what about colour?!'))).toEqual([4, 5]);
+	});
+
+	it('should expand prefixes and wildcards against the term dictionary', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), wordSegmentTokenThreshold: 4});
+		await engine.addDocuments(docs);
+
+		expect(ids(await engine.search('docu*'))).toEqual([1, 2]);
+		expect(ids(await engine.search('DOC*'))).toEqual([1, 2, 3]);
+		expect(ids(await engine.search('colo?r'))).toEqual([4, 5]);
+		expect(ids(await engine.search('colo*r'))).toEqual([4, 5]);
+		expect(ids(await engine.search('+colo*r +and'))).toEqual([4]);
+		expect(ids(await engine.search('*ation'))).toEqual([2]);
+		expect((await engine.search('docu*')).find(r => r.id === 2)!.tokens).toEqual(['documentation']);
+
+		// 只匹配文档的最新版本
+		await engine.updateDocument({id: 3, text: "container images"});
+		expect(ids(await engine.search('dock*'))).toEqual([]);
+	});
+
+	it('should fall back to scanning the dictionary without a term table', async () => {
+		const storage = new MockStorage();
+		const engine = new SearchEngine({storage, hashAlgorithm: 32});
+		await engine.addDocuments(docs);
+
+		for (const file of await storage.listFiles()) {
+			if (file.includes('_terms_')) await storage.remove(file);
+		}
+		const reloaded = new SearchEngine({storage, hashAlgorithm: 32});
+		expect(ids(await reloaded.search('docu*'))).toEqual([1, 2]);
+		expect(ids(await reloaded.search('colo?r'))).toEqual([4, 5]);
+	});
+});
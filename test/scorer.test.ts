@@ -0,0 +1,60 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {ITermMatch, ITermStats, SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+const docs = [
+	{id: 1, text: "apple banana"},
+	{id: 2, text: "apple"},
+	{id: 3, text: "cherry"}
+];
+
+describe('Scorer', () => {
+	it('should score every matched term', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), ranking: 'classic'});
+		await engine.addDocuments(docs);
+
+		const results = await engine.search('apple banana');
+		expect(results.map(r => r.id)).toEqual([1, 2]);
+		expect(results[0].score).toBeCloseTo(1.5 + 1.6);
+		expect(results[1].score).toBeCloseTo(1.5);
+		expect(results[0].termScores).toEqual({apple: expect.closeTo(1.5), banana: expect.closeTo(1.6)});
+	});
+
+	it('should weight single-character hits below word hits by default', async () => {
+		const corpus = [{id: 1, text: "apple"}, {id: 2, text: "x"}, {id: 3, text: "cherry"}];
+		const weighted = new SearchEngine({storage: new MockStorage()});
+		const unweighted = new SearchEngine({storage: new MockStorage(), charWeight: 1});
+		await weighted.addDocuments(corpus);
+		await unweighted.addDocuments(corpus);
+
+		// 两个词的文档频率与文档长度相同，不加权时得分相同
+		const [apple, x] = await unweighted.search('apple x');
+		expect(x.score).toBeCloseTo(apple.score);
+
+		const results = await weighted.search('apple x');
+		expect(results.map(r => r.id)).toEqual([1, 2]);
+		expect(results[0].score).toBeCloseTo(apple.score);
+		expect(results[1].score).toBeCloseTo(apple.score * 0.5);
+	});
+
+	it('should use a custom scorer with term statistics', async () => {
+		const calls: [string, ITermStats, ITermMatch][] = [];
+		const engine = new SearchEngine({
+			storage: new MockStorage(),
+			scorer: (term, stats, match) => {
+				calls.push([term, stats, match]);
+				return stats.type === 'word' ? 2 : 1;
+			}
+		});
+		await engine.addDocuments([...docs, {id: 4, text: "apple apple x"}]);
+
+		const results = await engine.search('apple x');
+		expect(results[0]).toMatchObject({id: 4, score: 3, termScores: {apple: 2, x: 1}});
+
+		const [, stats, match] = calls.find(([term, , match]) => term === 'apple' && match.id === 4)!;
+		expect(stats).toEqual({type: 'word', docFrequency: 3, docCount: 4, avgDocLength: 7 / 4});
+		expect(match).toMatchObject({id: 4, frequency: 2, docLength: 3});
+	});
+});
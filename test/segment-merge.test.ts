@@ -0,0 +1,69 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+const docs = Array.from({length: 8}, (_, i) => ({id: i + 1, text: `common word${i + 1}`}));
+
+describe('Segment Merge', () => {
+	it('optimize should merge segments down to maxSegments', async () => {
+		const mockStorage = new MockStorage();
+		const engine = new SearchEngine({storage: mockStorage, wordSegmentTokenThreshold: 3});
+		for (const doc of docs) await engine.addDocument(doc);
+		expect((await engine.getStatus()).wordSegments).toBe(8);
+
+		await engine.optimize(2);
+		expect((await engine.getStatus()).wordSegments).toBe(2);
+		const files = (await mockStorage.listFiles()).filter(f => f.includes('word_seg_'));
+		expect(files).toHaveLength(2);
+
+		expect(await engine.search("common")).toHaveLength(8);
+		expect((await engine.search("word5")).map(r => r.id)).toEqual([5]);
+
+		// 合并后继续添加文档，新段文件名不能与已有段冲突
+		await engine.addDocument({id: 9, text: "common word9"});
+		const reloaded = new SearchEngine({storage: mockStorage, wordSegmentTokenThreshold: 3});
+		expect(await reloaded.search("common")).toHaveLength(9);
+	});
+
+	it('should merge same-tier segments automatically with segmentMergeFactor', async () => {
+		const engine = new SearchEngine({
+			storage: new MockStorage(),
+			wordSegmentTokenThreshold: 3,
+			segmentMergeFactor: 4
+		});
+		engine.startBatch();
+		for (const doc of docs) {
+			await engine.addDocument(doc);
+		}
+		await engine.endBatch();
+		// 批处理中的数据只形成一个段
+		expect((await engine.getStatus()).wordSegments).toBe(1);
+
+		for (const doc of docs) {
+			await engine.updateDocument({...doc, text: `${doc.text} again`});
+		}
+		// 不合并时应有 1 + 8 个段；前 4 个小段被合并为一个上一层级的段
+		expect((await engine.getStatus()).wordSegments).toBe(6);
+		expect(await engine.search("again")).toHaveLength(8);
+		expect(await engine.search("common")).toHaveLength(8);
+	});
+
+	it('should keep the old segments until the merged metadata is saved', async () => {
+		const mockStorage = new MockStorage();
+		const engine = new SearchEngine({storage: mockStorage, wordSegmentTokenThreshold: 3});
+		for (const doc of docs) await engine.addDocument(doc);
+
+		const write = mockStorage.write.bind(mockStorage);
+		mockStorage.write = async (filename, data) => {
+			if (filename === 'search_meta.json') throw new Error('disk full');
+			return write(filename, data);
+		};
+		await expect(engine.optimize()).rejects.toThrow('disk full');
+		mockStorage.write = write;
+
+		const reloaded = new SearchEngine({storage: mockStorage, wordSegmentTokenThreshold: 3});
+		expect(await reloaded.search("common")).toHaveLength(8);
+	});
+});
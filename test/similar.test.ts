@@ -0,0 +1,75 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+describe('Similar', () => {
+	const docs = [
+		{id: 1, text: "solar panels convert sunlight into electricity"},
+		{id: 2, text: "rooftop solar panels and sunlight efficiency"},
+		{id: 3, text: "wind turbines generate electricity"},
+		{id: 4, text: "baking sourdough bread at home"},
+		{id: 5, text: "sourdough starter and bread flour"}
+	];
+
+	it('should find documents sharing distinctive terms', async () => {
+		const engine = new SearchEngine({storage: new MockStorage()});
+		await engine.addDocuments(docs);
+
+		const results = await engine.similar(1);
+		expect(results.map(r => r.id)).toEqual([2, 3]);
+		expect(results[0].tokens).toEqual(expect.arrayContaining(['solar', 'panels', 'sunlight']));
+		expect((await engine.similar(4)).map(r => r.id)).toEqual([5]);
+		expect((await engine.similar(1, 1)).map(r => r.id)).toEqual([2]);
+	});
+
+	it('should read tokens across segments and updated documents', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), wordSegmentTokenThreshold: 10});
+		for (const doc of docs) await engine.addDocument(doc);
+		// 未配置停用词时 and 也是共同的词，但权重远低于 sourdough、bread
+		expect((await engine.similar(5)).map(r => r.id)).toEqual([4, 2]);
+
+		await engine.updateDocument({id: 3, text: "sourdough bread recipe"});
+		expect((await engine.similar(3)).map(r => r.id).sort()).toEqual([4, 5]);
+		expect((await engine.similar(1)).map(r => r.id)).toEqual([2]);
+
+		await engine.compact();
+		expect((await engine.similar(3)).map(r => r.id).sort()).toEqual([4, 5]);
+	});
+
+	it('should read only the source record from the cache', async () => {
+		const storage = new MockStorage();
+		const engine = new SearchEngine({storage});
+		// 超过一次读取范围的长文档
+		const long = Array.from({length: 1000}, (_, i) => `term${i}`).join(' ');
+		await engine.addDocuments([...docs, {id: 6, text: long}, {id: 7, text: long}]);
+
+		const ranges: number[] = [];
+		const readRange = storage.readRange.bind(storage);
+		storage.readRange = async (filename, start, end) => {
+			if (filename === 'word_cache.bin') ranges.push(end - start);
+			return readRange(filename, start, end);
+		};
+		expect((await engine.similar(1)).map(r => r.id)).toEqual([2, 3]);
+		expect(ranges).toEqual([expect.any(Number)]);
+		expect(ranges[0]).toBeLessThan(await storage.getFileSize('word_cache.bin'));
+		expect((await engine.similar(6)).map(r => r.id)).toEqual([7]);
+
+		// 旧版本的索引只记录了更新过的文档，其余文档按索引段的范围查找
+		await storage.remove('doc_versions.bin');
+		const reloaded = new SearchEngine({storage});
+		expect((await reloaded.similar(1)).map(r => r.id)).toEqual([2, 3]);
+	});
+
+	it('should return nothing for missing, deleted or unique documents', async () => {
+		const engine = new SearchEngine({storage: new MockStorage()});
+		await engine.addDocuments([...docs, {id: 6, text: "completely unrelated words"}]);
+		await engine.removeDocument(2);
+
+		expect(await engine.similar(2)).toEqual([]);
+		expect(await engine.similar(99)).toEqual([]);
+		expect(await engine.similar(6)).toEqual([]);
+		expect((await engine.similar(1)).map(r => r.id)).toEqual([3]);
+	});
+});
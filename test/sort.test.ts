@@ -0,0 +1,50 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {SearchEngine, SortOption} from '../src';
+import {MockStorage} from './common/storage';
+
+describe('Sort', () => {
+	const createEngine = async () => {
+		const engine = new SearchEngine({
+			storage: new MockStorage(),
+			filterableAttributes: {createdAt: 'date', price: 'number', name: 'string', tags: 'string'}
+		});
+		await engine.addDocuments([
+			{id: 1, text: "apple apple apple", attributes: {createdAt: '2024-01-01', price: 5, name: 'b', tags: ['m', 'x']}},
+			{id: 2, text: "apple pie", attributes: {createdAt: '2024-03-01', price: 5, name: 'a', tags: ['n']}},
+			{id: 3, text: "apple", attributes: {createdAt: '2024-02-01', price: 2, name: 'c', tags: ['a', 'z']}},
+			{id: 4, text: "apple juice", attributes: {price: 9}}
+		]);
+		return engine;
+	};
+	const ids = async (engine: SearchEngine, sort: SortOption[], limit?: number) =>
+		(await engine.search('apple', {sort, limit})).hits.map(h => h.id);
+
+	it('should sort by attributes with missing values last', async () => {
+		const engine = await createEngine();
+		expect(await ids(engine, [{field: 'createdAt', order: 'desc'}])).toEqual([2, 3, 1, 4]);
+		expect(await ids(engine, [{field: 'createdAt'}])).toEqual([1, 3, 2, 4]);
+		expect(await ids(engine, [{field: 'name'}], 2)).toEqual([2, 1]);
+		// 多值属性升序取最小值、降序取最大值
+		expect(await ids(engine, [{field: 'tags'}])).toEqual([3, 1, 2, 4]);
+		expect(await ids(engine, [{field: 'tags', order: 'desc'}])).toEqual([3, 1, 2, 4]);
+	});
+
+	it('should combine sort keys with score and break ties by ID', async () => {
+		const engine = await createEngine();
+		const scores = new Map((await engine.search('apple')).map(r => [r.id, r.score]));
+		const byScore = (order: number) => (a: number, b: number) => (scores.get(a)! - scores.get(b)!) * order || a - b;
+
+		expect(await ids(engine, ['_score'])).toEqual([1, 2, 3, 4].sort(byScore(-1)));
+		expect(await ids(engine, [{field: '_score', order: 'asc'}])).toEqual([1, 2, 3, 4].sort(byScore(1)));
+		expect(await ids(engine, [{field: 'price', order: 'desc'}, '_score'])).toEqual([4, ...[1, 2].sort(byScore(-1)), 3]);
+		// 属性相同时按文档ID升序
+		expect(await ids(engine, [{field: 'price', order: 'desc'}])).toEqual([4, 1, 2, 3]);
+	});
+
+	it('should reject undeclared sort attributes', async () => {
+		const engine = await createEngine();
+		await expect(engine.search('apple', {sort: [{field: 'color'}]})).rejects.toThrow('not filterable');
+	});
+});
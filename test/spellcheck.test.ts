@@ -0,0 +1,48 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+describe('Spellcheck', () => {
+	const createEngine = async () => {
+		const engine = new SearchEngine({storage: new MockStorage()});
+		await engine.addDocuments([
+			{id: 1, text: "quick brown fox"},
+			{id: 2, text: "quick search engine"},
+			{id: 3, text: "quack duck"},
+			{id: 4, text: "search results"}
+		]);
+		return engine;
+	};
+
+	it('should correct unknown terms by distance and frequency', async () => {
+		const engine = await createEngine();
+
+		expect(await engine.spellcheck('Qiuck fox', 1)).toEqual([{
+			text: 'quick fox',
+			corrections: [{term: 'qiuck', correction: 'quick', distance: 1, frequency: 2}]
+		}]);
+		// 编辑距离小的在前，相同时文档数多的在前
+		expect((await engine.spellcheck('quock')).map(s => s.text)).toEqual(['quick', 'quack', 'duck']);
+	});
+
+	it('should combine corrections of multiple terms', async () => {
+		const engine = await createEngine();
+		const suggestions = await engine.spellcheck('serch enigne');
+		expect(suggestions[0].text).toBe('search engine');
+		expect(suggestions[0].corrections.map(c => c.correction)).toEqual(['search', 'engine']);
+	});
+
+	it('should return nothing for known or unmatched terms', async () => {
+		const engine = await createEngine();
+		expect(await engine.spellcheck('quick fox')).toEqual([]);
+		expect(await engine.spellcheck('zzzzzz')).toEqual([]);
+	});
+
+	it('should ignore terms from deleted documents', async () => {
+		const engine = await createEngine();
+		await engine.removeDocument(3);
+		expect((await engine.spellcheck('quock')).map(s => s.text)).toEqual(['quick']);
+	});
+});
@@ -0,0 +1,73 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {createEnglishAnalyzers, SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+describe('Suggest', () => {
+	it('should suggest terms by document frequency', async () => {
+		const engine = new SearchEngine({storage: new MockStorage()});
+		await engine.addDocuments([
+			{id: 1, text: "search engine"},
+			{id: 2, text: "searching for results"},
+			{id: 3, text: "search search search"},
+			{id: 4, text: "seaside"}
+		]);
+
+		expect(await engine.suggest('sea')).toEqual([
+			{term: 'search', frequency: 2},
+			{term: 'searching', frequency: 1},
+			{term: 'seaside', frequency: 1}
+		]);
+		expect(await engine.suggest('SEA', 1)).toEqual([{term: 'search', frequency: 2}]);
+		expect(await engine.suggest('xyz')).toEqual([]);
+		expect(await engine.suggest('  ')).toEqual([]);
+	});
+
+	it('should merge segments and ignore deleted documents', async () => {
+		const engine = new SearchEngine({storage: new MockStorage()});
+		await engine.addDocument({id: 1, text: "apple pie"});
+		await engine.addDocument({id: 2, text: "apple juice"});
+		await engine.addDocument({id: 3, text: "application"});
+
+		expect(await engine.suggest('app')).toEqual([
+			{term: 'apple', frequency: 2},
+			{term: 'application', frequency: 1}
+		]);
+
+		await engine.removeDocument(1);
+		await engine.removeDocument(3);
+		expect(await engine.suggest('app')).toEqual([{term: 'apple', frequency: 1}]);
+	});
+
+	it('should rank by exact frequency when postings include deleted and updated documents', async () => {
+		const engine = new SearchEngine({storage: new MockStorage()});
+		await engine.addDocuments([
+			{id: 1, text: "apple"},
+			{id: 2, text: "apple"},
+			{id: 3, text: "apple"},
+			{id: 4, text: "apply"},
+			{id: 5, text: "apply"},
+			{id: 6, text: "applet"}
+		]);
+		await engine.removeDocument(1);
+		await engine.removeDocument(2);
+		await engine.updateDocument({id: 5, text: "applet"});
+
+		expect(await engine.suggest('app', 1)).toEqual([{term: 'applet', frequency: 2}]);
+		expect(await engine.suggest('app', 2)).toEqual([
+			{term: 'applet', frequency: 2},
+			{term: 'apple', frequency: 1}
+		]);
+		expect(await engine.suggest('app', 0)).toEqual([]);
+	});
+
+	it('should suggest analyzed terms', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), indexingAnalyzers: createEnglishAnalyzers()});
+		await engine.addDocuments([
+			{id: 1, text: "Running fast"},
+			{id: 2, text: "runs daily"}
+		]);
+		expect(await engine.suggest('Run')).toEqual([{term: 'run', frequency: 2}]);
+	});
+});
@@ -0,0 +1,62 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it} from 'vitest';
+import {createEnglishAnalyzers, SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+const docs = [
+	{id: 1, text: "cheap laptop deals"},
+	{id: 2, text: "new notebook models"},
+	{id: 3, text: "portable computer guide"},
+	{id: 4, text: "computer portable stand"},
+	{id: 5, text: "ipod accessories"}
+];
+
+const ids = (results: { id: number }[]) => results.map(r => r.id).sort();
+
+describe('Synonyms', () => {
+	it('should expand equivalence groups and multi-word synonyms', async () => {
+		const engine = new SearchEngine({
+			storage: new MockStorage(),
+			storePositions: true,
+			synonyms: [['laptop', 'notebook', 'portable computer']]
+		});
+		await engine.addDocuments(docs);
+
+		expect(ids(await engine.search('laptop'))).toEqual([1, 2, 3]);
+		expect(ids(await engine.search('notebook'))).toEqual([1, 2, 3]);
+		// 多词同义词按短语匹配，查询中的原词仍单独匹配
+		expect(ids(await engine.search('portable computer'))).toEqual([1, 2, 3, 4]);
+		expect(ids(await engine.search('"portable computer"'))).toEqual([3]);
+	});
+
+	it('should score synonyms below the original term', async () => {
+		const engine = new SearchEngine({
+			storage: new MockStorage(),
+			synonyms: [['laptop', 'notebook']],
+			synonymWeight: 0.5
+		});
+		await engine.addDocuments(docs);
+
+		const [original, synonym] = await engine.search('laptop');
+		expect(original.id).toBe(1);
+		expect(synonym).toMatchObject({id: 2, tokens: ['notebook']});
+		expect(synonym.score).toBeCloseTo(original.score * 0.5);
+
+		// 同义词已在查询中时不重复计分
+		const [both] = await engine.search('laptop notebook');
+		expect(both.score).toBeCloseTo(original.score);
+	});
+
+	it('should apply one-way rules through the search analyzers', async () => {
+		const engine = new SearchEngine({
+			storage: new MockStorage(),
+			indexingAnalyzers: createEnglishAnalyzers(),
+			synonyms: [{from: 'mp3 players', to: ['ipods']}]
+		});
+		await engine.addDocuments([...docs, {id: 6, text: "mp3 player reviews"}]);
+
+		expect(ids(await engine.search('mp3 player'))).toEqual([5, 6]);
+		expect(ids(await engine.search('ipod'))).toEqual([5]);
+	});
+});
@@ -0,0 +1,64 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {describe, expect, it, vi} from 'vitest';
+import {defaultTokenize, IDocumentBase, IToken, SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+const STOPWORDS = new Set(['of', 'the']);
+const STEMS: Record<string, string> = {running: 'run', runs: 'run'};
+
+// 去除停用词（保留空位）并还原词形的分词器
+const analyze = (doc: IDocumentBase): IToken[] => defaultTokenize(doc)
+	.filter(token => !STOPWORDS.has(token.term))
+	.map(token => ({...token, term: STEMS[token.term] ?? token.term}));
+
+describe('Token Offsets', () => {
+	it('should report offsets from the default tokenizer', () => {
+		expect(defaultTokenize({text: 'Hello, World 你好'})).toEqual([
+			{term: 'hello', start: 0, end: 5, position: 0},
+			{term: 'world', start: 7, end: 12, position: 1},
+			{term: '你好', start: 13, end: 15, position: 2}
+		]);
+	});
+
+	it('should keep the basic fallback without Intl.Segmenter', () => {
+		// 已有索引按基本规则分词，n-gram 分词只在设置 tokenizer 时使用
+		vi.stubGlobal('Intl', {});
+		try {
+			expect(defaultTokenize({text: 'Hello, 東京タワー'})).toEqual([
+				{term: 'hello', start: 0, end: 5, position: 0},
+				{term: '東京', start: 7, end: 9, position: 1}
+			]);
+		} finally {
+			vi.unstubAllGlobals();
+		}
+	});
+
+	it('should keep token positions for phrase queries', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), indexingTokenizer: analyze, storePositions: true});
+		await engine.addDocuments([
+			{id: 1, text: "state of the art"},
+			{id: 2, text: "state art"}
+		]);
+
+		expect((await engine.search('"state of the art"')).map(r => r.id)).toEqual([1]);
+		expect((await engine.search('"state art"')).map(r => r.id)).toEqual([2]);
+		// 停用词保留空位，state 与 art 在短语中相距 3，在文档 2 中相距 1
+		expect((await engine.search('"state of the art"~1')).map(r => r.id)).toEqual([1]);
+		expect((await engine.search('"state of the art"~2')).map(r => r.id).sort()).toEqual([1, 2]);
+	});
+
+	it('should highlight with tokenizer offsets', async () => {
+		const engine = new SearchEngine({storage: new MockStorage(), indexingTokenizer: analyze, storeDocuments: true});
+		await engine.addDocument({id: 1, text: "Running late, she runs"});
+
+		const [hit] = await engine.search('run');
+		expect(hit.tokens).toEqual(['run']);
+		const result = (await engine.highlight(hit))!;
+		expect(result.matches).toEqual([
+			{token: 'run', start: 0, end: 7},
+			{token: 'run', start: 18, end: 22}
+		]);
+		expect(result.snippets).toEqual(['<mark>Running</mark> late, she <mark>runs</mark>']);
+	});
+});
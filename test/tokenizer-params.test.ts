@@ -34,8 +34,10 @@ describe('Tokenizer Parameters', () => {
     const capturedDocuments: CustomDocument[] = [];
 
     // 创建一个新的engine实例，配置自定义的indexingTokenizer
+    // 时间戳超过 32 位，需要使用 'number' 类型的ID
     const customEngine = new SearchEngine({
       storage: createMockStorage(),
+      idType: 'number',
       indexingTokenizer: (doc: CustomDocument) => {
         capturedDocuments.push(doc);
         return doc.text.split(' ');
@@ -71,8 +73,10 @@ describe('Tokenizer Parameters', () => {
     const capturedDocuments: CustomDocument[] = [];
 
     // 创建一个新的engine实例，配置自定义的indexingTokenizer
+    // 时间戳超过 32 位，需要使用 'number' 类型的ID
     const customEngine = new SearchEngine({
       storage: createMockStorage(),
+      idType: 'number',
       indexingTokenizer: (doc: CustomDocument) => {
         capturedDocuments.push(doc);
         return doc.text.split(' ');
@@ -120,6 +124,7 @@ describe('Tokenizer Parameters', () => {
     // 创建一个新的engine实例，配置自定义的indexingTokenizer和searchTokenizer
     const customEngine = new SearchEngine({
       storage: createMockStorage(),
+      idType: 'number',
       indexingTokenizer: (doc) => doc.text.split(' '),
       searchTokenizer: (query: CustomSearchDoc) => {
         capturedQueries.push(query);
@@ -151,6 +156,7 @@ describe('Tokenizer Parameters', () => {
     // 创建一个新的engine实例，配置自定义的indexingTokenizer和searchTokenizer
     const customEngine = new SearchEngine({
       storage: createMockStorage(),
+      idType: 'number',
       indexingTokenizer: (doc) => doc.text.split(' '),
       searchTokenizer: (query: IDocumentBase) => {
         capturedQueries.push(query);
@@ -0,0 +1,65 @@
+// noinspection TypeScriptUnresolvedReference
+
+import {beforeEach, describe, expect, it} from 'vitest';
+import {SearchEngine} from '../src';
+import {MockStorage} from './common/storage';
+
+describe('Update Document', () => {
+	let engine: SearchEngine;
+	let mockStorage: MockStorage;
+
+	beforeEach(async () => {
+		mockStorage = new MockStorage();
+		engine = new SearchEngine({
+			storage: mockStorage,
+			wordSegmentTokenThreshold: 4
+		});
+	});
+
+	it('更新后只匹配最新版本的内容', async () => {
+		await engine.addDocument({id: 1, text: "apple banana"});
+		await engine.updateDocument({id: 1, text: "cherry durian"});
+
+		expect(await engine.search("apple")).toHaveLength(0);
+		const res = await engine.search("cherry");
+		expect(res.map(r => r.id)).toEqual([1]);
+	});
+
+	it('跨索引段的旧版本也会被忽略', async () => {
+		await engine.addDocuments([
+			{id: 1, text: "apple banana"},
+			{id: 2, text: "apple cherry"}
+		]);
+		// 阈值为4，新版本会写入新的索引段
+		await engine.updateDocument({id: 1, text: "durian elderberry fig"});
+		expect((await engine.getStatus()).wordSegments).toBeGreaterThan(1);
+
+		const res = await engine.search("apple");
+		expect(res.map(r => r.id)).toEqual([2]);
+		expect((await engine.search("durian")).map(r => r.id)).toEqual([1]);
+	});
+
+	it('删除后可以通过 updateDocument 重新添加', async () => {
+		await engine.addDocument({id: 1, text: "apple banana"});
+		await engine.removeDocument(1);
+		await engine.updateDocument({id: 1, text: "cherry"});
+
+		expect(await engine.search("apple")).toHaveLength(0);
+		expect((await engine.search("cherry")).map(r => r.id)).toEqual([1]);
+		expect((await engine.getStatus()).deleted).toBe(0);
+	});
+
+	it('upsertDocuments 同时处理新增与更新，并在重新加载后保持', async () => {
+		await engine.addDocument({id: 1, text: "apple"});
+		await engine.upsertDocuments([
+			{id: 1, text: "banana"},
+			{id: 2, text: "apple"},
+			{id: 2, text: "cherry"}
+		]);
+
+		const reloaded = new SearchEngine({storage: mockStorage, wordSegmentTokenThreshold: 4});
+		expect(await reloaded.search("apple")).toHaveLength(0);
+		expect((await reloaded.search("banana")).map(r => r.id)).toEqual([1]);
+		expect((await reloaded.search("cherry")).map(r => r.id)).toEqual([2]);
+	});
+});